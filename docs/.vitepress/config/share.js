@@ -18,6 +18,7 @@ export function getChartApiMenus (lang = '') {
     { text: 'getSupportedIndicators', link: `${prefix}/getSupportedIndicators` },
     { text: 'registerOverlay', link: `${prefix}/registerOverlay` },
     { text: 'getSupportedOverlays', link: `${prefix}/getSupportedOverlays` },
+    { text: 'registerDataTransform', link: `${prefix}/registerDataTransform` },
     { text: 'registerXAxis', link: `${prefix}/registerXAxis` },
     { text: 'registerYAxis', link: `${prefix}/registerYAxis` },
     { text: 'utils', link: `${prefix}/utils` }
@@ -53,18 +54,30 @@ export function getInstanceApiMenus (lang = '') {
     { text: 'getBarSpace', link: `${prefix}/getBarSpace` },
     { text: 'applyNewData', link: `${prefix}/applyNewData` },
     { text: 'updateData', link: `${prefix}/updateData` },
+    { text: 'updateTick', link: `${prefix}/updateTick` },
+    { text: 'setTickAggregation', link: `${prefix}/setTickAggregation` },
+    { text: 'setResolution', link: `${prefix}/setResolution` },
     { text: 'setLoadMoreDataCallback', link: `${prefix}/setLoadMoreDataCallback` },
     { text: 'getDataList', link: `${prefix}/getDataList` },
     { text: 'getVisibleRange', link: `${prefix}/getVisibleRange` },
     { text: 'clearData', link: `${prefix}/clearData` },
+    { text: 'setDataTransform', link: `${prefix}/setDataTransform` },
     { text: 'createIndicator', link: `${prefix}/createIndicator` },
     { text: 'overrideIndicator', link: `${prefix}/overrideIndicator` },
     { text: 'getIndicators', link: `${prefix}/getIndicators` },
     { text: 'removeIndicator', link: `${prefix}/removeIndicator` },
+    { text: 'setIndicatorCalcExecutor', link: `${prefix}/setIndicatorCalcExecutor` },
+    { text: 'addSeries', link: `${prefix}/addSeries` },
+    { text: 'overrideSeries', link: `${prefix}/overrideSeries` },
+    { text: 'removeSeries', link: `${prefix}/removeSeries` },
     { text: 'createOverlay', link: `${prefix}/createOverlay` },
     { text: 'overrideOverlay', link: `${prefix}/overrideOverlay` },
     { text: 'getOverlays', link: `${prefix}/getOverlays` },
     { text: 'removeOverlay', link: `${prefix}/removeOverlay` },
+    { text: 'addAlert', link: `${prefix}/addAlert` },
+    { text: 'getAlerts', link: `${prefix}/getAlerts` },
+    { text: 'overrideAlert', link: `${prefix}/overrideAlert` },
+    { text: 'removeAlert', link: `${prefix}/removeAlert` },
     { text: 'setPaneOptions', link: `${prefix}/setPaneOptions` },
     { text: 'getPaneOptions', link: `${prefix}/getPaneOptions` },
     { text: 'setZoomEnabled', link: `${prefix}/setZoomEnabled` },
@@ -83,7 +96,12 @@ export function getInstanceApiMenus (lang = '') {
     { text: 'executeAction', link: `${prefix}/executeAction` },
     { text: 'subscribeAction', link: `${prefix}/subscribeAction` },
     { text: 'unsubscribeAction', link: `${prefix}/unsubscribeAction` },
+    { text: 'undo', link: `${prefix}/undo` },
+    { text: 'redo', link: `${prefix}/redo` },
+    { text: 'setHistoryMaxDepth', link: `${prefix}/setHistoryMaxDepth` },
     { text: 'getConvertPictureUrl', link: `${prefix}/getConvertPictureUrl` },
+    { text: 'exportState', link: `${prefix}/exportState` },
+    { text: 'importState', link: `${prefix}/importState` },
     { text: 'resize', link: `${prefix}/resize` }
   ]
 }
@@ -6,7 +6,7 @@ export default [
   ...new FlatCompat().extends('eslint-config-standard'),
   {
     ...love,
-    files: ['src/**/*.js', 'src/**/*.ts']
+    files: ['src/**/*.js', 'src/**/*.ts', 'tests/unit/**/*.ts']
   },
   {
     plugins: {
@@ -0,0 +1,51 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { spawnSync } from 'child_process'
+
+import { rollup } from 'rollup'
+import { nodeResolve } from '@rollup/plugin-node-resolve'
+import typescript from '@rollup/plugin-typescript'
+import chalk from 'chalk'
+
+import { resolvePath } from './utils.js'
+
+const testDir = resolvePath('tests/unit')
+
+/**
+ * Bundle each test file to a temporary directory and run them with the test runner of Node
+ */
+async function test () {
+  const files = fs.readdirSync(testDir).filter(file => file.endsWith('.test.ts'))
+  const outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'klinecharts-test-'))
+  let status = 1
+  try {
+    const outputFiles = []
+    for (const file of files) {
+      const bundle = await rollup({
+        input: resolvePath(file, testDir),
+        external: [/^node:/],
+        plugins: [
+          typescript({
+            tsconfig: resolvePath('tsconfig.json', testDir),
+            noEmitOnError: true
+          }),
+          nodeResolve()
+        ]
+      })
+      const outputFile = resolvePath(file.replace(/\.ts$/, '.cjs'), outputDir)
+      await bundle.write({ file: outputFile, format: 'cjs' })
+      await bundle.close()
+      outputFiles.push(outputFile)
+    }
+    status = spawnSync(process.execPath, ['--test', ...outputFiles], { stdio: 'inherit' }).status ?? 1
+  } catch (err) {
+    console.log(`\n${chalk.red(err)}\n`)
+    console.log(chalk.red('✖️ Failed to compile the tests.\n'))
+  } finally {
+    fs.rmSync(outputDir, { recursive: true, force: true })
+  }
+  process.exit(status)
+}
+
+test()
@@ -15,13 +15,18 @@
 import type Nullable from './common/Nullable'
 import type Bounding from './common/Bounding'
 import { createDefaultBounding } from './common/Bounding'
-import type { KLineData } from './common/Data'
+import type { KLineData, TickData } from './common/Data'
+import type { Period } from './common/Period'
 import type Coordinate from './common/Coordinate'
 import type Point from './common/Point'
 import { UpdateLevel } from './common/Updater'
 import type Crosshair from './common/Crosshair'
 import type { ActionType, ActionCallback } from './common/Action'
 import type { LoadDataCallback, LoadDataMore } from './common/LoadDataCallback'
+import type { IndicatorCalcExecutor } from './common/IndicatorCalcExecutor'
+import type { DataTransform, DataTransformCreate } from './common/DataTransform'
+import type { HistoryState } from './common/History'
+import { type ChartState, type ChartStateAxis, type ChartStateMigrateCallback, CHART_STATE_VERSION } from './common/ChartState'
 import type Precision from './common/Precision'
 import type VisibleRange from './common/VisibleRange'
 import type { Formatter, DecimalFold, LayoutChild, Options, ThousandsSeparator } from './Options'
@@ -30,11 +35,11 @@ import Animation from './common/Animation'
 import { createId } from './common/utils/id'
 import { createDom } from './common/utils/dom'
 import { getPixelRatio } from './common/utils/canvas'
-import { isString, isArray, isValid, merge, isNumber, isBoolean } from './common/utils/typeChecks'
+import { isString, isArray, isValid, merge, isNumber, isBoolean, isFunction, clone } from './common/utils/typeChecks'
 import { logWarn } from './common/utils/logger'
 import { binarySearchNearest } from './common/utils/number'
 
-import ChartStore, { SCALE_MULTIPLIER, type Store } from './Store'
+import ChartStore, { SCALE_MULTIPLIER, type Store, type TickAggregation } from './Store'
 
 import CandlePane from './pane/CandlePane'
 import IndicatorPane from './pane/IndicatorPane'
@@ -49,6 +54,8 @@ import type { YAxis } from './component/YAxis'
 
 import type { IndicatorFilter, Indicator, IndicatorCreate, IndicatorOverride } from './component/Indicator'
 import type { OverlayFilter, Overlay, OverlayCreate, OverlayOverride } from './component/Overlay'
+import type { Series, SeriesCreate, SeriesOverride } from './component/Series'
+import type { Alert, AlertCreate, AlertOverride } from './component/Alert'
 
 import { getIndicatorClass } from './extension/indicator/index'
 
@@ -62,6 +69,7 @@ export type DomPosition = 'root' | 'main' | 'yAxis'
 
 export interface ConvertFilter {
   paneId?: string
+  yAxisId?: string
   absolute?: boolean
 }
 
@@ -76,6 +84,7 @@ export interface Chart extends Store {
   getSize: (paneId?: string, position?: DomPosition) => Nullable<Bounding>
   applyNewData: (dataList: KLineData[], more?: boolean | Partial<LoadDataMore>) => void
   updateData: (data: KLineData) => void
+  updateTick: (tick: TickData) => boolean
   createIndicator: (value: string | IndicatorCreate, isStack?: boolean, paneOptions?: PaneOptions) => Nullable<string>
   getIndicators: (filter?: IndicatorFilter) => Indicator[]
   createOverlay: (value: string | OverlayCreate | Array<string | OverlayCreate>) => Nullable<string> | Array<Nullable<string>>
@@ -95,6 +104,8 @@ export interface Chart extends Store {
   subscribeAction: (type: ActionType, callback: ActionCallback) => void
   unsubscribeAction: (type: ActionType, callback?: ActionCallback) => void
   getConvertPictureUrl: (includeOverlay?: boolean, type?: 'png' | 'jpeg' | 'bmp', backgroundColor?: string) => string
+  exportState: () => ChartState
+  importState: (state: ChartState, migrate?: ChartStateMigrateCallback) => boolean
   resize: () => void
 }
 
@@ -399,8 +410,10 @@ export default class ChartImp implements Chart {
     let forceMeasureWidth = measureWidth
     if (buildYAxisTick || forceBuildYAxisTick) {
       this._drawPanes.forEach(pane => {
-        const success = (pane.getAxisComponent() as AxisImp).buildTicks(forceBuildYAxisTick)
-        forceMeasureWidth ||= success
+        pane.getAxisComponents().forEach(axis => {
+          const success = (axis as AxisImp).buildTicks(forceBuildYAxisTick)
+          forceMeasureWidth ||= success
+        })
       })
     }
     if (forceMeasureWidth) {
@@ -414,20 +427,27 @@ export default class ChartImp implements Chart {
 
       this._drawPanes.forEach(pane => {
         if (pane.getId() !== PaneIdConstants.X_AXIS) {
-          const yAxis = pane.getAxisComponent() as YAxis
-          const inside = yAxis.inside
-          const yAxisWidth = yAxis.getAutoSize()
-          if (yAxis.position === 'left') {
-            leftYAxisWidth = Math.max(leftYAxisWidth, yAxisWidth)
-            if (inside) {
-              leftYAxisOutside = false
-            }
-          } else {
-            rightYAxisWidth = Math.max(rightYAxisWidth, yAxisWidth)
-            if (inside) {
-              rightYAxisOutside = false
+          // The axes on the same side of a pane are stacked
+          let paneLeftYAxisWidth = 0
+          let paneRightYAxisWidth = 0
+          pane.getAxisComponents().forEach(axis => {
+            const yAxis = axis as YAxis
+            const inside = yAxis.inside
+            const yAxisWidth = yAxis.getAutoSize()
+            if (yAxis.position === 'left') {
+              paneLeftYAxisWidth += yAxisWidth
+              if (inside) {
+                leftYAxisOutside = false
+              }
+            } else {
+              paneRightYAxisWidth += yAxisWidth
+              if (inside) {
+                rightYAxisOutside = false
+              }
             }
-          }
+          })
+          leftYAxisWidth = Math.max(leftYAxisWidth, paneLeftYAxisWidth)
+          rightYAxisWidth = Math.max(rightYAxisWidth, paneRightYAxisWidth)
         }
       })
 
@@ -685,9 +705,19 @@ export default class ChartImp implements Chart {
     return this._chartStore.getDataList()
   }
 
+  setDataTransform (transform: Nullable<string | DataTransformCreate>): void {
+    this._chartStore.setDataTransform(transform)
+  }
+
+  getDataTransform (): Nullable<DataTransform> {
+    return this._chartStore.getDataTransform()
+  }
+
   applyNewData (data: KLineData[], more?: boolean | Partial<LoadDataMore>): void {
     this._drawPanes.forEach(pane => {
-      (pane.getAxisComponent() as AxisImp).setAutoCalcTickFlag(true)
+      pane.getAxisComponents().forEach(axis => {
+        (axis as AxisImp).setAutoCalcTickFlag(true)
+      })
     })
     let loadDataMore = { forward: false, backward: false }
     if (isBoolean(more)) {
@@ -703,10 +733,110 @@ export default class ChartImp implements Chart {
     this._chartStore.addData(data, 'update')
   }
 
+  updateTick (tick: TickData): boolean {
+    return this._chartStore.addTick(tick)
+  }
+
+  setTickAggregation (aggregation: Partial<TickAggregation>): void {
+    this._chartStore.setTickAggregation(aggregation)
+  }
+
+  getTickAggregation (): TickAggregation {
+    return this._chartStore.getTickAggregation()
+  }
+
+  setResolution (resolution: Nullable<Period>): void {
+    this._chartStore.setResolution(resolution)
+  }
+
+  getResolution (): Nullable<Period> {
+    return this._chartStore.getResolution()
+  }
+
+  addSeries (create: SeriesCreate): Nullable<string> {
+    return this._chartStore.addSeries(create)
+  }
+
+  getSeries (id?: string): Series[] {
+    return this._chartStore.getSeries(id)
+  }
+
+  overrideSeries (override: SeriesOverride): boolean {
+    return this._chartStore.overrideSeries(override)
+  }
+
+  updateSeriesData (id: string, data: KLineData): void {
+    this._chartStore.updateSeriesData(id, data)
+  }
+
+  removeSeries (id?: string): boolean {
+    return this._chartStore.removeSeries(id)
+  }
+
+  addAlert (create: AlertCreate): Nullable<string> {
+    return this._chartStore.addAlert(create)
+  }
+
+  getAlerts (id?: string): Alert[] {
+    return this._chartStore.getAlerts(id)
+  }
+
+  overrideAlert (override: AlertOverride): boolean {
+    return this._chartStore.overrideAlert(override)
+  }
+
+  removeAlert (id?: string): boolean {
+    return this._chartStore.removeAlert(id)
+  }
+
+  undo (): boolean {
+    return this._chartStore.undo()
+  }
+
+  redo (): boolean {
+    return this._chartStore.redo()
+  }
+
+  getHistoryState (): HistoryState {
+    return this._chartStore.getHistoryState()
+  }
+
+  setHistoryMaxDepth (depth: number): void {
+    if (depth < 0) {
+      logWarn('setHistoryMaxDepth', 'depth', 'depth must not be less than zero!!!')
+      return
+    }
+    this._chartStore.setHistoryMaxDepth(Math.floor(depth))
+  }
+
+  getHistoryMaxDepth (): number {
+    return this._chartStore.getHistoryMaxDepth()
+  }
+
+  startHistoryGroup (): void {
+    this._chartStore.startHistoryGroup()
+  }
+
+  endHistoryGroup (): void {
+    this._chartStore.endHistoryGroup()
+  }
+
+  clearHistory (): void {
+    this._chartStore.clearHistory()
+  }
+
   setLoadMoreDataCallback (cb: LoadDataCallback): void {
     this._chartStore.setLoadMoreDataCallback(cb)
   }
 
+  setIndicatorCalcExecutor (executor: Nullable<IndicatorCalcExecutor>): void {
+    this._chartStore.setIndicatorCalcExecutor(executor)
+  }
+
+  getIndicatorCalcExecutor (): Nullable<IndicatorCalcExecutor> {
+    return this._chartStore.getIndicatorCalcExecutor()
+  }
+
   createIndicator (value: string | IndicatorCreate, isStack?: boolean, paneOptions?: PaneOptions): Nullable<string> {
     const indicator = isString(value) ? { name: value } : value
     if (getIndicatorClass(indicator.name) === null) {
@@ -935,7 +1065,7 @@ export default class ChartImp implements Chart {
             }
           }
         }
-        if (isValid(options.axis)) {
+        if (isValid(options.axis) || isValid(options.yAxes)) {
           shouldLayout = true
         }
         const ops = { ...options }
@@ -1046,7 +1176,7 @@ export default class ChartImp implements Chart {
   }
 
   convertToPixel (points: Partial<Point> | Array<Partial<Point>>, filter?: ConvertFilter): Partial<Coordinate> | Array<Partial<Coordinate>> {
-    const { paneId = PaneIdConstants.CANDLE, absolute = false } = filter ?? {}
+    const { paneId = PaneIdConstants.CANDLE, yAxisId, absolute = false } = filter ?? {}
     let coordinates: Array<Partial<Coordinate>> = []
     if (paneId !== PaneIdConstants.X_AXIS) {
       const pane = this.getDrawPaneById(paneId)
@@ -1056,7 +1186,7 @@ export default class ChartImp implements Chart {
         // @ts-expect-error
         const ps: Array<Partial<Point>> = [].concat(points)
         const xAxis = this._xAxisPane.getAxisComponent()
-        const yAxis = pane.getAxisComponent()
+        const yAxis = pane.getAxisComponent(yAxisId)
         coordinates = ps.map(point => {
           const coordinate: Partial<Coordinate> = {}
           let dataIndex = point.dataIndex
@@ -1078,7 +1208,7 @@ export default class ChartImp implements Chart {
   }
 
   convertFromPixel (coordinates: Array<Partial<Coordinate>>, filter?: ConvertFilter): Partial<Point> | Array<Partial<Point>> {
-    const { paneId = PaneIdConstants.CANDLE, absolute = false } = filter ?? {}
+    const { paneId = PaneIdConstants.CANDLE, yAxisId, absolute = false } = filter ?? {}
     let points: Array<Partial<Point>> = []
     if (paneId !== PaneIdConstants.X_AXIS) {
       const pane = this.getDrawPaneById(paneId)
@@ -1088,7 +1218,7 @@ export default class ChartImp implements Chart {
         // @ts-expect-error
         const cs: Array<Partial<Coordinate>> = [].concat(coordinates)
         const xAxis = this._xAxisPane.getAxisComponent()
-        const yAxis = pane.getAxisComponent()
+        const yAxis = pane.getAxisComponent(yAxisId)
         points = cs.map(coordinate => {
           const point: Partial<Point> = {}
           if (isNumber(coordinate.x)) {
@@ -1162,6 +1292,118 @@ export default class ChartImp implements Chart {
     return canvas.toDataURL(`image/${type ?? 'jpeg'}`)
   }
 
+  exportState (): ChartState {
+    const chartStore = this._chartStore
+    const getStateAxis: ((axis: YAxis) => ChartStateAxis) = ({ name, reverse, inside, position, scrollZoomEnabled, gap }) => ({ name, reverse, inside, position, scrollZoomEnabled, gap: { ...gap } })
+    const panes = this._drawPanes.filter(pane => pane.getId() !== PaneIdConstants.X_AXIS).map(pane => {
+      const { id, order, minHeight, dragEnabled, state, yAxes } = pane.getOptions()
+      const yAxisPane = pane as DrawPane<YAxis>
+      return {
+        id,
+        order,
+        // The height to restore is the one before maximizing or minimizing
+        height: state === 'normal' ? pane.getBounding().height : pane.getOriginalBounding().height,
+        minHeight,
+        dragEnabled,
+        state,
+        axis: getStateAxis(yAxisPane.getAxisComponent()),
+        yAxes: yAxes.map(({ id }) => ({ id, ...getStateAxis(yAxisPane.getAxisComponent(id)) }))
+      }
+    })
+    const indicators = chartStore.getIndicatorsByFilter({}).map(indicator => {
+      const {
+        id, paneId, name, yAxisId, shortName, precision, calcParams, source, timeframe, shouldOhlc, shouldFormatBigNumber,
+        visible, zLevel, extendData, levels, bands, minValue, maxValue, styles
+      } = indicator
+      return clone({
+        id,
+        paneId,
+        name,
+        yAxisId,
+        shortName,
+        precision,
+        calcParams,
+        source,
+        timeframe,
+        shouldOhlc,
+        shouldFormatBigNumber,
+        visible,
+        zLevel,
+        extendData,
+        levels,
+        bands,
+        minValue,
+        maxValue,
+        styles
+      })
+    })
+    const overlays = chartStore.getOverlaysByFilter({}).filter(overlay => !overlay.isDrawing()).map(overlay => {
+      const { id, groupId, paneId, name, lock, visible, zLevel, mode, modeSensitivity, points, extendData, styles } = overlay
+      return clone({ id, groupId, paneId, name, lock, visible, zLevel, mode, modeSensitivity, points, extendData, styles })
+    })
+    return {
+      version: CHART_STATE_VERSION,
+      panes,
+      indicators,
+      overlays,
+      styles: clone(chartStore.getStyleOverrides()),
+      locale: chartStore.getLocale(),
+      timezone: chartStore.getTimezone(),
+      precision: { ...chartStore.getPrecision() },
+      barSpace: chartStore.getBarSpace().bar,
+      offsetRightDistance: chartStore.getInitialOffsetRightDistance(),
+      lastBarRightSideDiffBarCount: chartStore.getLastBarRightSideDiffBarCount()
+    }
+  }
+
+  importState (state: ChartState, migrate?: ChartStateMigrateCallback): boolean {
+    let currentState = state
+    if (currentState.version !== CHART_STATE_VERSION && isFunction(migrate)) {
+      currentState = migrate(clone(currentState))
+    }
+    if (currentState.version !== CHART_STATE_VERSION) {
+      logWarn('importState', 'state', 'state version not supported, you may need to use migrate to convert it!!!')
+      return false
+    }
+    const {
+      panes, indicators, overlays, styles, locale, timezone, precision,
+      barSpace, offsetRightDistance, lastBarRightSideDiffBarCount
+    } = clone(currentState)
+    // The styles set before are discarded, so that the restored styles are the same as the exported ones
+    this._setOptions(() => {
+      this._chartStore.setStyles(styles, { reset: true })
+    })
+    this.setLocale(locale)
+    this.setTimezone(timezone)
+    this.setPrecision(precision)
+
+    this.removeOverlay()
+    this.removeIndicator()
+    panes.forEach(({ state: _, ...paneOptions }) => {
+      if (paneOptions.id === PaneIdConstants.CANDLE) {
+        this.setPaneOptions(paneOptions)
+      }
+      indicators.filter(indicator => indicator.paneId === paneOptions.id).forEach((indicator, index) => {
+        this.createIndicator(indicator, true, index === 0 ? paneOptions : { id: paneOptions.id })
+      })
+    })
+    // The states are restored after all panes are created, maximizing a pane hides the others
+    panes.forEach(({ id, state }) => {
+      if (state !== 'normal') {
+        this.setPaneOptions({ id, state })
+      }
+    })
+    this.createOverlay(overlays)
+
+    this._chartStore.setOffsetRightDistance(offsetRightDistance)
+    this.setBarSpace(barSpace)
+    const currentBarSpace = this._chartStore.getBarSpace().bar
+    this.scrollByDistance((this._chartStore.getLastBarRightSideDiffBarCount() - lastBarRightSideDiffBarCount) * currentBarSpace)
+    // The restored state is the new starting point of the history
+    this._chartStore.clearHistory()
+    return true
+  }
+
   resize (): void {
     this._cacheChartBounding()
     this.layout({
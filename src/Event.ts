@@ -29,6 +29,7 @@ import type Pane from './pane/Pane'
 import type DrawPane from './pane/DrawPane'
 import { PaneIdConstants } from './pane/types'
 import type Widget from './widget/Widget'
+import type YAxisWidget from './widget/YAxisWidget'
 import { WidgetNameConstants, REAL_SEPARATOR_HEIGHT } from './widget/types'
 
 interface EventTriggerWidgetInfo {
@@ -168,7 +169,7 @@ export default class Event implements EventHandler {
           return this._processXAxisScrollStartEvent(widget, event)
         }
         case WidgetNameConstants.Y_AXIS: {
-          return this._processYAxisScaleStartEvent(widget as Widget<DrawPane<YAxis>>, event)
+          return this._processYAxisScaleStartEvent(widget as YAxisWidget, event)
         }
       }
     }
@@ -245,7 +246,7 @@ export default class Event implements EventHandler {
           return this._processXAxisScrollingEvent(widget as Widget<DrawPane<XAxis>>, event)
         }
         case WidgetNameConstants.Y_AXIS: {
-          return this._processYAxisScalingEvent(widget as Widget<DrawPane<YAxis>>, event)
+          return this._processYAxisScalingEvent(widget as YAxisWidget, event)
         }
       }
     }
@@ -321,7 +322,7 @@ export default class Event implements EventHandler {
           return widget.dispatchEvent('mouseDoubleClickEvent', event)
         }
         case WidgetNameConstants.Y_AXIS: {
-          const yAxis = (pane as DrawPane<YAxis>).getAxisComponent()
+          const yAxis = (pane as DrawPane<YAxis>).getAxisComponent((widget as YAxisWidget).getAxisId())
           if (!yAxis.getAutoCalcTickFlag()) {
             yAxis.setAutoCalcTickFlag(true)
             this._chart.layout({
@@ -391,7 +392,7 @@ export default class Event implements EventHandler {
           return this._processXAxisScrollStartEvent(widget, event)
         }
         case WidgetNameConstants.Y_AXIS: {
-          return this._processYAxisScaleStartEvent(widget as Widget<DrawPane<YAxis>>, event)
+          return this._processYAxisScaleStartEvent(widget as YAxisWidget, event)
         }
       }
     }
@@ -423,7 +424,7 @@ export default class Event implements EventHandler {
           return this._processXAxisScrollingEvent(widget as Widget<DrawPane<XAxis>>, event)
         }
         case WidgetNameConstants.Y_AXIS: {
-          return this._processYAxisScalingEvent(widget as Widget<DrawPane<YAxis>>, event)
+          return this._processYAxisScalingEvent(widget as YAxisWidget, event)
         }
       }
     }
@@ -592,21 +593,21 @@ export default class Event implements EventHandler {
     return consumed
   }
 
-  private _processYAxisScaleStartEvent (widget: Widget<DrawPane<YAxis>>, event: MouseTouchEvent): boolean {
+  private _processYAxisScaleStartEvent (widget: YAxisWidget, event: MouseTouchEvent): boolean {
     const consumed = widget.dispatchEvent('mouseDownEvent', event)
     if (consumed) {
       this._chart.updatePane(UpdateLevel.Overlay)
     }
-    const range = widget.getPane().getAxisComponent().getRange()
+    const range = widget.getPane().getAxisComponent(widget.getAxisId()).getRange()
     this._prevYAxisRange = { ...range }
     this._yAxisStartScaleDistance = event.pageY
     return consumed
   }
 
-  private _processYAxisScalingEvent (widget: Widget<DrawPane<YAxis>>, event: MouseTouchEvent): boolean {
+  private _processYAxisScalingEvent (widget: YAxisWidget, event: MouseTouchEvent): boolean {
     const consumed = widget.dispatchEvent('pressedMouseMoveEvent', event)
     if (!consumed) {
-      const yAxis = widget.getPane().getAxisComponent()
+      const yAxis = widget.getPane().getAxisComponent(widget.getAxisId()) as YAxis
       if (this._prevYAxisRange !== null && yAxis.scrollZoomEnabled && this._yAxisStartScaleDistance !== 0) {
         const { from, to, range } = this._prevYAxisRange
         const scale = event.pageY / this._yAxisStartScaleDistance
@@ -682,14 +683,14 @@ export default class Event implements EventHandler {
         }
       }
       if (!isValid(widget)) {
-        const yAxisWidget = pane.getYAxisWidget()
-        if (yAxisWidget !== null) {
+        for (const yAxisWidget of pane.getYAxisWidgets()) {
           const yAxisBounding = yAxisWidget.getBounding()
           if (
             x >= yAxisBounding.left && x <= yAxisBounding.left + yAxisBounding.width &&
             y >= yAxisBounding.top && y <= yAxisBounding.top + yAxisBounding.height
           ) {
             widget = yAxisWidget
+            break
           }
         }
       }
@@ -15,22 +15,27 @@
 import type Nullable from './common/Nullable'
 import type DeepPartial from './common/DeepPartial'
 import type PickRequired from './common/PickRequired'
-import type { KLineData, VisibleRangeData } from './common/Data'
+import type { KLineData, TickData, VisibleRangeData } from './common/Data'
 import type VisibleRange from './common/VisibleRange'
 import type Coordinate from './common/Coordinate'
 import { getDefaultVisibleRange } from './common/VisibleRange'
 import TaskScheduler, { generateTaskId } from './common/TaskScheduler'
+import type { IndicatorCalcExecutor } from './common/IndicatorCalcExecutor'
+import type { DataTransform, DataTransformCreate, DataTransformTemplate } from './common/DataTransform'
+import { type Period, type PeriodSession, getPeriodStartTimestamp, isTimestampInSession, resampleDataList } from './common/Period'
 import type Crosshair from './common/Crosshair'
 import type BarSpace from './common/BarSpace'
 import type Precision from './common/Precision'
 import Action from './common/Action'
+import History, { type HistoryState } from './common/History'
 import type { ActionType, ActionCallback } from './common/Action'
-import { formatValue, formatTimestampByTemplate, formatBigNumber, formatThousands, formatFoldDecimal } from './common/utils/format'
+import { formatValue, formatTimestampByTemplate, formatBigNumber, formatThousands, formatFoldDecimal, createDateTimeFormat } from './common/utils/format'
 import { getDefaultStyles, type Styles, type TooltipLegend } from './common/Styles'
-import { isArray, isString, isValid, isNumber, isBoolean, merge } from './common/utils/typeChecks'
+import { isArray, isString, isValid, isNumber, isBoolean, merge, clone } from './common/utils/typeChecks'
 import { createId } from './common/utils/id'
 import { binarySearchNearest } from './common/utils/number'
 import { logWarn } from './common/utils/logger'
+import { colorToRgba } from './common/utils/color'
 import { UpdateLevel } from './common/Updater'
 import type { LoadDataCallback, LoadDataParams, LoadDataType } from './common/LoadDataCallback'
 import type TimeWeightTick from './common/TimeWeightTick'
@@ -38,17 +43,23 @@ import { classifyTimeWeightTicks, createTimeWeightTickList } from './common/Time
 
 import type { Options, Formatter, ThousandsSeparator, DecimalFold, FormatDateType, FormatDateParams, FormatBigNumber, FormatExtendText, FormatExtendTextParams } from './Options'
 
-import type { IndicatorOverride, IndicatorCreate, IndicatorFilter } from './component/Indicator'
+import type { IndicatorOverride, IndicatorCreate, IndicatorFilter, IndicatorCalcParams, IndicatorCalcRange } from './component/Indicator'
 import type IndicatorImp from './component/Indicator'
+import { getIndicatorSourceValue, updateIndicatorSourceDataList } from './component/Indicator'
 import { getIndicatorClass } from './extension/indicator/index'
 
 import type OverlayImp from './component/Overlay'
 import { type OverlayCreate, OVERLAY_ID_PREFIX, type OverlayFilter, type OverlayFigure, type OverlayOverride } from './component/Overlay'
 import { getOverlayInnerClass } from './extension/overlay/index'
 
+import SeriesImp, { type SeriesCreate, type SeriesOverride, type Series } from './component/Series'
+
+import AlertImp, { type AlertCreate, type AlertOverride, type Alert, type AlertOperand, ALERT_ID_PREFIX, getOverlayAlertValue } from './component/Alert'
+
 import { getStyles as getExtensionStyles } from './extension/styles/index'
+import { getDataTransform as getExtensionDataTransform } from './extension/data-transform/index'
 
-import { PaneIdConstants } from './pane/types'
+import { type PaneOptions, PaneIdConstants } from './pane/types'
 
 import type Chart from './Chart'
 
@@ -103,6 +114,12 @@ export interface Store {
   getPrecision: () => Precision
   setPrecision: (precision: Partial<Precision>) => void
   getDataList: () => KLineData[]
+  setDataTransform: (transform: Nullable<string | DataTransformCreate>) => void
+  getDataTransform: () => Nullable<DataTransform>
+  setTickAggregation: (aggregation: Partial<TickAggregation>) => void
+  getTickAggregation: () => TickAggregation
+  setResolution: (resolution: Nullable<Period>) => void
+  getResolution: () => Nullable<Period>
   setOffsetRightDistance: (distance: number) => void
   getOffsetRightDistance: () => number
   setMaxOffsetLeftDistance: (distance: number) => void
@@ -113,6 +130,8 @@ export interface Store {
   getBarSpace: () => BarSpace
   getVisibleRange: () => VisibleRange
   setLoadMoreDataCallback: (callback: LoadDataCallback) => void
+  setIndicatorCalcExecutor: (executor: Nullable<IndicatorCalcExecutor>) => void
+  getIndicatorCalcExecutor: () => Nullable<IndicatorCalcExecutor>
   overrideIndicator: (override: IndicatorCreate) => boolean
   removeIndicator: (filter?: IndicatorFilter) => boolean
   overrideOverlay: (override: Partial<OverlayCreate>) => boolean
@@ -122,8 +141,44 @@ export interface Store {
   setScrollEnabled: (enabled: boolean) => void
   isScrollEnabled: () => boolean
   clearData: () => void
+  addSeries: (create: SeriesCreate) => Nullable<string>
+  getSeries: (id?: string) => Series[]
+  overrideSeries: (override: SeriesOverride) => boolean
+  updateSeriesData: (id: string, data: KLineData) => void
+  removeSeries: (id?: string) => boolean
+  addAlert: (create: AlertCreate) => Nullable<string>
+  getAlerts: (id?: string) => Alert[]
+  overrideAlert: (override: AlertOverride) => boolean
+  removeAlert: (id?: string) => boolean
+  undo: () => boolean
+  redo: () => boolean
+  getHistoryState: () => HistoryState
+  setHistoryMaxDepth: (depth: number) => void
+  getHistoryMaxDepth: () => number
+  startHistoryGroup: () => void
+  endHistoryGroup: () => void
+  clearHistory: () => void
+}
+
+export interface TickAggregation {
+  /**
+   * The period of the bars the ticks are aggregated into
+   */
+  period: Period
+  /**
+   * The ticks out of the session are ignored
+   */
+  session: Nullable<PeriodSession>
 }
 
+type OverlayHistorySnapshot = Pick<OverlayImp, 'groupId' | 'lock' | 'visible' | 'zLevel' | 'mode' | 'modeSensitivity' | 'points' | 'extendData' | 'styles'>
+
+type IndicatorHistorySnapshot = Pick<
+IndicatorImp,
+'shortName' | 'yAxisId' | 'precision' | 'calcParams' | 'source' | 'timeframe' | 'shouldOhlc' | 'shouldFormatBigNumber' | 'visible' | 'zLevel' | 'extendData' |
+'levels' | 'bands' | 'minValue' | 'maxValue' | 'styles'
+>
+
 export default class StoreImp implements Store {
   /**
    * Internal chart
@@ -133,7 +188,12 @@ export default class StoreImp implements Store {
   /**
    * Styles
    */
-  private readonly _styles = getDefaultStyles()
+  private _styles = getDefaultStyles()
+
+  /**
+   * The styles set by `setStyles` , the default styles are not included
+   */
+  private _styleOverrides: DeepPartial<Styles> = {}
 
   /**
    * Custom api
@@ -189,6 +249,49 @@ export default class StoreImp implements Store {
    */
   private _dataList: KLineData[] = []
 
+  /**
+   * The source data list before transforming, only used when the data transform or the resolution is set
+   */
+  private _transformSourceDataList: KLineData[] = []
+
+  /**
+   * Data transform, the data source is the transformed data list when it is set
+   */
+  private _dataTransform: Nullable<{ template: DataTransformTemplate, calcParams: unknown[] }> = null
+
+  /**
+   * State kept by the data transform
+   */
+  private _dataTransformState: Record<string, unknown> = {}
+
+  /**
+   * Resolution the source data list is resampled to before the data transform
+   */
+  private _resolution: Nullable<Period> = null
+
+  /**
+   * The resampled data list, kept to resample only the last bar when updating
+   */
+  private _resampledDataList: KLineData[] = []
+
+  /**
+   * Tick aggregation
+   */
+  private readonly _tickAggregation: TickAggregation = {
+    period: { type: 'minute', span: 1 },
+    session: null
+  }
+
+  /**
+   * Heikin-Ashi data list derived from the data source
+   */
+  private _heikinAshiDataList: KLineData[] = []
+
+  /**
+   * The data index from which the heikin-ashi data needs to be recalculated
+   */
+  private _heikinAshiCalcFromIndex = 0
+
   /**
    * Load more data callback
    */
@@ -308,6 +411,46 @@ export default class StoreImp implements Store {
    */
   private readonly _taskScheduler = new TaskScheduler()
 
+  /**
+   * Pending indicator calculation params, `null` means full calculation
+   */
+  private readonly _indicatorCalcParams = new Map<string, Nullable<IndicatorCalcParams>>()
+
+  /**
+   * The data lists whose close is the value of the source, for the indicators whose source is not `close`
+   */
+  private readonly _indicatorSourceDataLists = new Map<string, KLineData[]>()
+
+  /**
+   * Indicator calculation executor, calculate on the main thread when it is `null`
+   */
+  private _indicatorCalcExecutor: Nullable<IndicatorCalcExecutor> = null
+
+  /**
+   * Comparison series drawn on the candle pane
+   */
+  private readonly _series = new Map<string, SeriesImp>()
+
+  /**
+   * Alerts checked after the data update
+   */
+  private readonly _alerts = new Map<string, AlertImp>()
+
+  /**
+   * Whether the alerts are waiting for the indicators to be calculated to be checked
+   */
+  private _alertCheckPending = false
+
+  /**
+   * The timestamp of the last data when the alerts were checked, used to know whether the previous data is closed
+   */
+  private _alertLastTimestamp: Nullable<number> = null
+
+  /**
+   * The number of the indicator calculations in progress
+   */
+  private _indicatorCalcCount = 0
+
   /**
    * Overlay
    */
@@ -353,6 +496,18 @@ export default class StoreImp implements Store {
     figure: null
   }
 
+  /**
+   * The snapshot of the overlay when it is pressed, used to record the drag as one history entry
+   */
+  private _pressedOverlaySnapshot: Nullable<OverlayHistorySnapshot> = null
+
+  /**
+   * Undo and redo history of the overlay and indicator edits
+   */
+  private readonly _history = new History(() => {
+    this.executeAction('onHistoryChange', this._history.getState())
+  })
+
   constructor (chart: Chart, options?: Options) {
     this._chart = chart
     this._calcOptimalBarSpace()
@@ -376,19 +531,34 @@ export default class StoreImp implements Store {
     }
   }
 
-  setStyles (value: string | DeepPartial<Styles>): void {
+  /**
+   * `options.reset` resets the styles to the default styles first, the styles set before are discarded
+   */
+  setStyles (value: string | DeepPartial<Styles>, options?: { reset?: boolean }): void {
     let styles: Nullable<DeepPartial<Styles>> = null
     if (isString(value)) {
       styles = getExtensionStyles(value)
     } else {
       styles = value
     }
+    const reset = options?.reset ?? false
+    const prevCandleType = this._styles.candle.type
+    if (reset) {
+      this._styles = getDefaultStyles()
+      this._styleOverrides = {}
+    }
     merge(this._styles, styles)
+    merge(this._styleOverrides, styles)
+    if (prevCandleType !== this._styles.candle.type) {
+      this._calcVisibleRangeDataList()
+      this.setCrosshair(this._crosshair, { notInvalidate: true })
+    }
     // `candle.tooltip.custom` should override
     if (isArray(styles?.candle?.tooltip?.custom)) {
       this._styles.candle.tooltip.custom = styles.candle.tooltip.custom as TooltipLegend[]
+      this._styleOverrides.candle!.tooltip!.custom = clone(styles.candle.tooltip.custom)
     }
-    if (isValid(styles?.candle?.priceMark?.last?.extendTexts)) {
+    if (reset || isValid(styles?.candle?.priceMark?.last?.extendTexts)) {
       this._clearLastPriceMarkExtendTextUpdateTimer()
       const intervals: number[] = []
       this._styles.candle.priceMark.last.extendTexts.forEach(item => {
@@ -406,6 +576,8 @@ export default class StoreImp implements Store {
 
   getStyles (): Styles { return this._styles }
 
+  getStyleOverrides (): DeepPartial<Styles> { return this._styleOverrides }
+
   setFormatter (formatter: Partial<Formatter>): void {
     merge(this._formatter, formatter)
   }
@@ -420,7 +592,15 @@ export default class StoreImp implements Store {
     return this._innerFormatter
   }
 
-  setLocale (locale: string): void { this._locale = locale }
+  setLocale (locale: string): void {
+    if (this._locale !== locale) {
+      this._locale = locale
+      // The texts of the markers are localized
+      this.getIndicatorsByFilter({}).forEach(indicator => {
+        indicator.calcMarkersImp(this._dataList, locale)
+      })
+    }
+  }
 
   getLocale (): string { return this._locale }
 
@@ -429,27 +609,26 @@ export default class StoreImp implements Store {
       !isValid(this._dateTimeFormat) ||
       (this.getTimezone() !== timezone)
     ) {
-      const options: Intl.DateTimeFormatOptions = {
-        hour12: false,
-        year: 'numeric',
-        month: '2-digit',
-        day: '2-digit',
-        hour: '2-digit',
-        minute: '2-digit',
-        second: '2-digit'
-      }
-      if (timezone.length > 0) {
-        options.timeZone = timezone
-      }
       let dateTimeFormat: Nullable<Intl.DateTimeFormat> = null
       try {
-        dateTimeFormat = new Intl.DateTimeFormat('en', options)
+        dateTimeFormat = createDateTimeFormat(timezone)
       } catch (e) {
         logWarn('', '', 'Timezone is error!!!')
       }
       if (dateTimeFormat !== null) {
         this._classifyTimeWeightTicks(this._dataList)
         this._dateTimeFormat = dateTimeFormat
+        if (isValid(this._resolution)) {
+          // The bars are aligned to the time in the timezone
+          this._retransformDataList(this.getSourceDataList())
+        } else {
+          // The calculation of some indicators depends on the timezone
+          this.getIndicatorsByFilter({}).forEach(indicator => {
+            if (this._getSourceIndicator(indicator) === null) {
+              this._addIndicatorCalcTask(indicator, 'init')
+            }
+          })
+        }
       }
     }
   }
@@ -483,6 +662,209 @@ export default class StoreImp implements Store {
     return this._dataList
   }
 
+  setTickAggregation (aggregation: Partial<TickAggregation>): void {
+    const { period, session } = aggregation
+    if (isValid(period)) {
+      this._tickAggregation.period = { ...period }
+    }
+    if (session !== undefined) {
+      this._tickAggregation.session = isValid(session) ? { ...session } : null
+    }
+  }
+
+  getTickAggregation (): TickAggregation {
+    return this._tickAggregation
+  }
+
+  /**
+   * Aggregate the tick into the last bar or a new bar,
+   * the ticks out of the session or before the last bar are ignored
+   */
+  addTick (tick: TickData): boolean {
+    const { period, session } = this._tickAggregation
+    const { timestamp, price, volume = 0, turnover } = tick
+    if (isValid(session) && !isTimestampInSession(this._dateTimeFormat, timestamp, session)) {
+      return false
+    }
+    const barTimestamp = getPeriodStartTimestamp(this._dateTimeFormat, timestamp, period, session)
+    const dataList = this.getSourceDataList()
+    const lastData = dataList[dataList.length - 1] as KLineData | undefined
+    let data: Nullable<KLineData> = null
+    if (lastData?.timestamp === barTimestamp) {
+      // The bar with the same timestamp replaces the last one, so the values are accumulated on it
+      data = {
+        ...lastData,
+        high: Math.max(lastData.high, price),
+        low: Math.min(lastData.low, price),
+        close: price,
+        volume: (lastData.volume ?? 0) + volume
+      }
+      if (isNumber(turnover)) {
+        data.turnover = (lastData.turnover ?? 0) + turnover
+      }
+    } else if (!isValid(lastData) || barTimestamp > lastData.timestamp) {
+      data = { timestamp: barTimestamp, open: price, high: price, low: price, close: price, volume }
+      if (isNumber(turnover)) {
+        data.turnover = turnover
+      }
+    }
+    if (data !== null) {
+      this.addData(data, 'update')
+      return true
+    }
+    return false
+  }
+
+  /**
+   * Get the data list before transforming
+   */
+  getSourceDataList (): KLineData[] {
+    return this._isDataTransformed() ? this._transformSourceDataList : this._dataList
+  }
+
+  private _isDataTransformed (): boolean {
+    return isValid(this._dataTransform) || isValid(this._resolution)
+  }
+
+  setDataTransform (transform: Nullable<string | DataTransformCreate>): void {
+    const sourceDataList = this.getSourceDataList()
+    if (isValid(transform)) {
+      const { name, calcParams } = isString(transform) ? { name: transform, calcParams: undefined } : transform
+      const template = getExtensionDataTransform(name)
+      if (template === null) {
+        logWarn('setDataTransform', 'transform', 'data transform not supported, you may need to use registerDataTransform to add one!!!')
+        return
+      }
+      this._dataTransform = { template, calcParams: calcParams ?? template.calcParams ?? [] }
+    } else {
+      if (!isValid(this._dataTransform)) {
+        return
+      }
+      this._dataTransform = null
+    }
+    this._retransformDataList(sourceDataList)
+  }
+
+  getDataTransform (): Nullable<DataTransform> {
+    if (isValid(this._dataTransform)) {
+      const { template, calcParams } = this._dataTransform
+      return { name: template.name, calcParams }
+    }
+    return null
+  }
+
+  /**
+   * Resample the source data list to a coarser resolution, the overlays keep anchored by the timestamp
+   */
+  setResolution (resolution: Nullable<Period>): void {
+    const sourceDataList = this.getSourceDataList()
+    if (isValid(resolution)) {
+      this._resolution = { ...resolution }
+    } else {
+      if (!isValid(this._resolution)) {
+        return
+      }
+      this._resolution = null
+    }
+    this._retransformDataList(sourceDataList)
+  }
+
+  getResolution (): Nullable<Period> {
+    return this._resolution
+  }
+
+  private _retransformDataList (sourceDataList: KLineData[]): void {
+    this._transformSourceDataList = this._isDataTransformed() ? sourceDataList : []
+    this._dataTransformState = {}
+    this._resampledDataList = []
+    this._dataList = this._transformDataList(sourceDataList, 'init')
+    this._heikinAshiCalcFromIndex = 0
+    this._classifyTimeWeightTicks(this._dataList)
+    this.setOffsetRightDistance(this._offsetRightDistance)
+    this._processDataChange('init', null)
+  }
+
+  private _transformDataList (sourceDataList: KLineData[], type: LoadDataType): KLineData[] {
+    let dataList = sourceDataList
+    if (isValid(this._resolution)) {
+      dataList = this._resampleDataList(sourceDataList, this._resolution, type)
+    }
+    if (isValid(this._dataTransform)) {
+      const { template, calcParams } = this._dataTransform
+      const transformedDataList = template.transform(dataList, { calcParams, type, state: this._dataTransformState })
+      // Several data can be transformed from the same source data, the timestamps are the keys of the x-axis,
+      // so they are made unique and increasing, and the source timestamp is kept
+      let prevTimestamp = Number.NEGATIVE_INFINITY
+      transformedDataList.forEach(data => {
+        const sourceTimestamp = isNumber(data.sourceTimestamp) ? data.sourceTimestamp : data.timestamp
+        data.sourceTimestamp = sourceTimestamp
+        data.timestamp = Math.max(sourceTimestamp, prevTimestamp + 1)
+        prevTimestamp = data.timestamp
+      })
+      return transformedDataList
+    }
+    return dataList
+  }
+
+  private _resampleDataList (sourceDataList: KLineData[], resolution: Period, type: LoadDataType): KLineData[] {
+    const prevDataList = this._resampledDataList
+    let dataList: KLineData[] = []
+    if (type === 'update' && prevDataList.length > 0) {
+      // Only the source data in the last bar and after it need to be resampled again
+      const lastTimestamp = prevDataList[prevDataList.length - 1].timestamp
+      let from = sourceDataList.length
+      while (from > 0 && sourceDataList[from - 1].timestamp >= lastTimestamp) {
+        from--
+      }
+      dataList = prevDataList.slice(0, -1).concat(
+        resampleDataList(this._dateTimeFormat, sourceDataList.slice(from), resolution)
+      )
+    } else {
+      dataList = resampleDataList(this._dateTimeFormat, sourceDataList, resolution)
+    }
+    this._resampledDataList = dataList
+    return dataList
+  }
+
+  /**
+   * Get the data list used to draw the candles, which is the heikin-ashi data when the candle type is `heikin_ashi`
+   */
+  getCandleDataList (): KLineData[] {
+    if (this._styles.candle.type !== 'heikin_ashi') {
+      return this._dataList
+    }
+    const dataList = this._dataList
+    const heikinAshiDataList = this._heikinAshiDataList
+    const from = Math.min(this._heikinAshiCalcFromIndex, heikinAshiDataList.length)
+    heikinAshiDataList.length = from
+    for (let i = from; i < dataList.length; i++) {
+      const data = dataList[i]
+      const prev = heikinAshiDataList[i - 1] as Nullable<KLineData> | undefined
+      const close = (data.open + data.high + data.low + data.close) / 4
+      const open = isValid(prev) ? (prev.open + prev.close) / 2 : (data.open + data.close) / 2
+      heikinAshiDataList.push({
+        ...data,
+        open,
+        high: Math.max(data.high, open, close),
+        low: Math.min(data.low, open, close),
+        close
+      })
+    }
+    this._heikinAshiCalcFromIndex = dataList.length
+    return heikinAshiDataList
+  }
+
+  /**
+   * Get the data list shown by the crosshair and tooltip
+   */
+  getCrosshairDataList (): KLineData[] {
+    const candleStyles = this._styles.candle
+    if (candleStyles.type === 'heikin_ashi' && candleStyles.heikinAshi.showRealPrice) {
+      return this._dataList
+    }
+    return this.getCandleDataList()
+  }
+
   getVisibleRangeDataList (): VisibleRangeData[] {
     return this._visibleRangeDataList
   }
@@ -496,9 +878,14 @@ export default class StoreImp implements Store {
     type: LoadDataType,
     more?: { forward: boolean, backward: boolean }
   ): void {
+    if (this._isDataTransformed()) {
+      this._addTransformData(data, type, more)
+      return
+    }
     let success = false
     let adjustFlag = false
     let dataLengthChange = 0
+    let calcRange: Nullable<IndicatorCalcRange> = null
     if (isArray<KLineData>(data)) {
       dataLengthChange = data.length
       switch (type) {
@@ -514,12 +901,14 @@ export default class StoreImp implements Store {
         }
         case 'backward': {
           this._classifyTimeWeightTicks(data, true)
+          calcRange = { from: this._dataList.length, to: this._dataList.length + dataLengthChange }
           this._dataList = this._dataList.concat(data)
           this._loadDataMore.backward = more?.backward ?? false
           adjustFlag = dataLengthChange > 0
           break
         }
         case 'forward': {
+          calcRange = { from: 0, to: dataLengthChange }
           this._dataList = data.concat(this._dataList)
           this._classifyTimeWeightTicks(this._dataList)
           this._loadDataMore.forward = more?.forward ?? false
@@ -540,6 +929,7 @@ export default class StoreImp implements Store {
       if (timestamp > lastDataTimestamp) {
         this._classifyTimeWeightTicks([data], true)
         this._dataList.push(data)
+        calcRange = { from: dataCount, to: dataCount + 1 }
         let lastBarRightSideDiffBarCount = this.getLastBarRightSideDiffBarCount()
         if (lastBarRightSideDiffBarCount < 0) {
           this.setLastBarRightSideDiffBarCount(--lastBarRightSideDiffBarCount)
@@ -549,31 +939,282 @@ export default class StoreImp implements Store {
         adjustFlag = true
       } else if (timestamp === lastDataTimestamp) {
         this._dataList[dataCount - 1] = data
+        calcRange = { from: dataCount - 1, to: dataCount }
         success = true
         adjustFlag = true
       }
     }
-    if (success) {
-      if (adjustFlag) {
-        this._adjustVisibleRange()
-        this.setCrosshair(this._crosshair, { notInvalidate: true })
-        const filterIndicators = this.getIndicatorsByFilter({})
-        filterIndicators.forEach(indicator => {
-          this._addIndicatorCalcTask(indicator, type)
-        })
-        this._chart.layout({
-          measureWidth: true,
-          update: true,
-          buildYAxisTick: true
-        })
+    if (success && adjustFlag) {
+      this._processDataChange(type, calcRange)
+    }
+  }
+
+  /**
+   * Add the data to the source data list and transform it again,
+   * the transformed data list is compared with the previous one to find the changed range
+   */
+  private _addTransformData (
+    data: KLineData | KLineData[],
+    type: LoadDataType,
+    more?: { forward: boolean, backward: boolean }
+  ): void {
+    let sourceDataList = this._transformSourceDataList
+    if (isArray<KLineData>(data)) {
+      switch (type) {
+        case 'init': {
+          this.clearData()
+          sourceDataList = data
+          this._loadDataMore.backward = more?.backward ?? false
+          this._loadDataMore.forward = more?.forward ?? false
+          break
+        }
+        case 'backward': {
+          sourceDataList = sourceDataList.concat(data)
+          this._loadDataMore.backward = more?.backward ?? false
+          break
+        }
+        case 'forward': {
+          sourceDataList = data.concat(sourceDataList)
+          this._loadDataMore.forward = more?.forward ?? false
+          break
+        }
+        default: {
+          break
+        }
+      }
+      this._loading = false
+    } else {
+      const dataCount = sourceDataList.length
+      const lastDataTimestamp = formatValue(sourceDataList[dataCount - 1], 'timestamp', 0) as number
+      if (data.timestamp > lastDataTimestamp) {
+        sourceDataList.push(data)
+      } else if (data.timestamp === lastDataTimestamp) {
+        sourceDataList[dataCount - 1] = data
+      } else {
+        return
+      }
+    }
+    this._transformSourceDataList = sourceDataList
+
+    const prevDataList = this._dataList
+    const dataList = this._transformDataList(sourceDataList, type)
+    let calcRange: Nullable<IndicatorCalcRange> = null
+    if (type !== 'init' && type !== 'forward') {
+      const keys = ['timestamp', 'open', 'high', 'low', 'close', 'volume', 'turnover']
+      const isSameData: ((prev: KLineData, current: KLineData) => boolean) = (prev, current) => keys.every(key => prev[key] === current[key])
+      const minLength = Math.min(prevDataList.length, dataList.length)
+      let from = 0
+      while (from < minLength && isSameData(prevDataList[from], dataList[from])) {
+        from++
+      }
+      if (from === dataList.length && from === prevDataList.length && type !== 'backward') {
+        return
       }
+      calcRange = { from, to: dataList.length }
     }
+    this._dataList = dataList
+    this._classifyTimeWeightTicks(dataList)
+    if (type === 'init') {
+      this.setOffsetRightDistance(this._offsetRightDistance)
+    } else if (type === 'update') {
+      const lastBarRightSideDiffBarCount = this.getLastBarRightSideDiffBarCount()
+      if (lastBarRightSideDiffBarCount < 0) {
+        this.setLastBarRightSideDiffBarCount(lastBarRightSideDiffBarCount - (dataList.length - prevDataList.length))
+      }
+    }
+    this._processDataChange(type, calcRange)
+  }
+
+  private _processDataChange (type: LoadDataType, calcRange: Nullable<IndicatorCalcRange>): void {
+    this._heikinAshiCalcFromIndex = Math.min(this._heikinAshiCalcFromIndex, calcRange?.from ?? 0)
+    this._indicatorCalcExecutor?.syncData?.(this._dataList, type, calcRange)
+    this._adjustVisibleRange()
+    this.setCrosshair(this._crosshair, { notInvalidate: true })
+    const filterIndicators = this.getIndicatorsByFilter({})
+    filterIndicators.forEach(indicator => {
+      // The indicators calculated from another indicator are calculated after it
+      if (this._getSourceIndicator(indicator) === null) {
+        this._addIndicatorCalcTask(indicator, type, calcRange)
+      }
+    })
+    if (type === 'update') {
+      this._alertCheckPending = true
+      this._checkAlerts()
+    } else {
+      this._alertCheckPending = false
+      this._alertLastTimestamp = this._dataList[this._dataList.length - 1]?.timestamp ?? null
+    }
+    this._chart.layout({
+      measureWidth: true,
+      update: true,
+      buildYAxisTick: true
+    })
   }
 
   setLoadMoreDataCallback (callback: LoadDataCallback): void {
     this._loadMoreDataCallback = callback
   }
 
+  setIndicatorCalcExecutor (executor: Nullable<IndicatorCalcExecutor>): void {
+    if (this._indicatorCalcExecutor !== executor) {
+      this._indicatorCalcExecutor?.destroy?.()
+      this._indicatorCalcExecutor = executor
+      executor?.syncData?.(this._dataList, 'init', null)
+    }
+  }
+
+  getIndicatorCalcExecutor (): Nullable<IndicatorCalcExecutor> {
+    return this._indicatorCalcExecutor
+  }
+
+  private async _calcIndicator (indicator: IndicatorImp, params: Nullable<IndicatorCalcParams>): Promise<boolean> {
+    const success = await this._calcIndicatorResult(indicator, params)
+    if (success) {
+      indicator.calcMarkersImp(this._dataList, this._locale)
+    }
+    return success
+  }
+
+  private async _calcIndicatorResult (indicator: IndicatorImp, params: Nullable<IndicatorCalcParams>): Promise<boolean> {
+    const executor = this._indicatorCalcExecutor
+    const context = { dateTimeFormat: this._dateTimeFormat }
+    const calcDataList = this._getIndicatorCalcDataList(indicator, params)
+    if (calcDataList === null) {
+      // The indicator sources, the timeframes and the sources missing the leading values are calculated fully on the main thread
+      const { dataList, offset } = this._getIndicatorSourceDataList(indicator)
+      const timeframe = indicator.timeframe
+      let success = false
+      if (isValid(timeframe)) {
+        // The last period is resampled again with the updated data, so the forming period is replaced rather than added
+        const timeframeDataList = resampleDataList(this._dateTimeFormat, dataList, timeframe)
+        success = await indicator.calcImp(timeframeDataList, null, context)
+        if (success) {
+          indicator.result = this._projectTimeframeResult(dataList, timeframeDataList, indicator.result)
+        }
+      } else {
+        success = await indicator.calcImp(dataList, null, context)
+      }
+      if (success && offset > 0) {
+        indicator.result = new Array(offset).concat(indicator.result)
+      }
+      return success
+    }
+    if (isValid(executor)) {
+      const result = await executor.calc(indicator, calcDataList, params, context)
+      if (isValid(result)) {
+        indicator.result = result
+        return true
+      }
+    }
+    return await indicator.calcImp(calcDataList, params, context)
+  }
+
+  /**
+   * The data list to calculate the indicator incrementally, the close is replaced with the value of the source,
+   * `null` when the indicator can not be calculated incrementally
+   */
+  private _getIndicatorCalcDataList (indicator: IndicatorImp, params: Nullable<IndicatorCalcParams>): Nullable<KLineData[]> {
+    const { id, source, timeframe } = indicator
+    if (isString(source) && !isValid(timeframe)) {
+      if (source === 'close') {
+        return this._dataList
+      }
+      // Only the data from the changed one are replaced again
+      const from = isValid(params) && params.type !== 'forward' ? params.range.from : 0
+      const sourceDataList = this._indicatorSourceDataLists.get(id) ?? []
+      if (updateIndicatorSourceDataList(sourceDataList, this._dataList, source, from)) {
+        this._indicatorSourceDataLists.set(id, sourceDataList)
+        return sourceDataList
+      }
+    }
+    this._indicatorSourceDataLists.delete(id)
+    return null
+  }
+
+  /**
+   * Map the result of the resampled data list back to the data list,
+   * each data gets the result of the period it belongs to
+   */
+  private _projectTimeframeResult (dataList: KLineData[], timeframeDataList: KLineData[], timeframeResult: unknown[]): unknown[] {
+    const result: unknown[] = []
+    let index = -1
+    dataList.forEach(({ timestamp }) => {
+      while (index + 1 < timeframeDataList.length && timeframeDataList[index + 1].timestamp <= timestamp) {
+        index++
+      }
+      result.push(index > -1 ? timeframeResult[index] : undefined)
+    })
+    return result
+  }
+
+  /**
+   * The indicator the source of the indicator refers to, `null` when the source is not an indicator,
+   * the indicator does not exist or the sources are cyclic
+   */
+  private _getSourceIndicator (indicator: IndicatorImp): Nullable<IndicatorImp> {
+    const find: ((child: IndicatorImp) => Nullable<IndicatorImp>) = child => {
+      const source = child.source
+      return isString(source) ? null : (this.getIndicatorsByFilter({ id: source.indicatorId })[0] ?? null)
+    }
+    const sourceIndicator = find(indicator)
+    const ids = [indicator.id]
+    let current = sourceIndicator
+    while (current !== null) {
+      if (ids.includes(current.id)) {
+        return null
+      }
+      ids.push(current.id)
+      current = find(current)
+    }
+    return sourceIndicator
+  }
+
+  /**
+   * The data list with the source values as the close,
+   * the leading data without the source value are skipped, the missing values are filled with the previous value
+   */
+  private _getIndicatorSourceDataList (indicator: IndicatorImp): { dataList: KLineData[], offset: number } {
+    const source = indicator.source
+    const sourceIndicator = this._getSourceIndicator(indicator)
+    const dataList: KLineData[] = []
+    let offset = 0
+    let close: Nullable<number> = null
+    this._dataList.forEach((kLineData, index) => {
+      let value: Nullable<number> = null
+      if (isString(source)) {
+        value = getIndicatorSourceValue(kLineData, source)
+      } else if (sourceIndicator !== null) {
+        const data = sourceIndicator.result[index] as Nullable<Record<string, unknown>>
+        const sourceValue = data?.[source.key]
+        value = isNumber(sourceValue) ? sourceValue : null
+      }
+      close = value ?? close
+      if (close === null) {
+        offset = index + 1
+      } else {
+        dataList.push({ ...kLineData, close })
+      }
+    })
+    return { dataList, offset }
+  }
+
+  /**
+   * Recalculate the indicators whose source is the indicator, after it is calculated or removed
+   */
+  private _addIndicatorSourceCalcTasks (sourceIndicator: IndicatorImp): void {
+    const removed = this.getIndicatorsByFilter({ id: sourceIndicator.id }).length === 0
+    this.getIndicatorsByFilter({}).forEach(indicator => {
+      const source = indicator.source
+      if (!isString(source) && source.indicatorId === sourceIndicator.id) {
+        const current = this._getSourceIndicator(indicator)
+        // The cyclic sources are not followed
+        if (current === sourceIndicator || (current === null && removed)) {
+          this._addIndicatorCalcTask(indicator, 'update')
+        }
+      }
+    })
+  }
+
   private _calcOptimalBarSpace (): void {
     const specialBarSpace = 4
     const ratio = 1 - BAR_GAP_RATIO * Math.atan(Math.max(specialBarSpace, this._barSpace) - specialBarSpace) / (Math.PI * 0.5)
@@ -653,43 +1294,17 @@ export default class StoreImp implements Store {
     const realFrom = this._lastBarRightSideDiffBarCount > 0 ? Math.round(totalBarCount + this._lastBarRightSideDiffBarCount - visibleBarCount) - 1 : from
     this._visibleRange = { from, to, realFrom, realTo }
     this.executeAction('onVisibleRangeChange', this._visibleRange)
-    this._visibleRangeDataList = []
-    this._visibleRangeHighLowPrice = [
-      { x: 0, price: Number.MIN_SAFE_INTEGER },
-      { x: 0, price: Number.MAX_SAFE_INTEGER }
-    ]
-    for (let i = realFrom; i < realTo; i++) {
-      const kLineData = this._dataList[i]
-      const x = this.dataIndexToCoordinate(i)
-      this._visibleRangeDataList.push({
-        dataIndex: i,
-        x,
-        data: {
-          prev: this._dataList[i - 1] ?? kLineData,
-          current: kLineData,
-          next: this._dataList[i + 1] ?? kLineData
-        }
-      })
-      if (isValid(kLineData)) {
-        if (this._visibleRangeHighLowPrice[0].price < kLineData.high) {
-          this._visibleRangeHighLowPrice[0].price = kLineData.high
-          this._visibleRangeHighLowPrice[0].x = x
-        }
-        if (this._visibleRangeHighLowPrice[1].price > kLineData.low) {
-          this._visibleRangeHighLowPrice[1].price = kLineData.low
-          this._visibleRangeHighLowPrice[1].x = x
-        }
-      }
-    }
+    this._calcVisibleRangeDataList()
     // More processing and loading, more loading if there are callback methods and no data is being loaded
     if (!this._loading && isValid(this._loadMoreDataCallback)) {
+      const sourceDataList = this.getSourceDataList()
       let params: Nullable<LoadDataParams> = null
       if (from === 0) {
         if (this._loadDataMore.forward) {
           this._loading = true
           params = {
             type: 'forward',
-            data: this._dataList[0] ?? null,
+            data: sourceDataList[0] ?? null,
             callback: (data: KLineData[], more?: boolean) => {
               this.addData(data, 'forward', { forward: more ?? false, backward: more ?? false })
             }
@@ -700,7 +1315,7 @@ export default class StoreImp implements Store {
           this._loading = true
           params = {
             type: 'backward',
-            data: this._dataList[totalBarCount - 1] ?? null,
+            data: sourceDataList[sourceDataList.length - 1] ?? null,
             callback: (data: KLineData[], more?: boolean) => {
               this.addData(data, 'backward', { forward: more ?? false, backward: more ?? false })
             }
@@ -713,6 +1328,39 @@ export default class StoreImp implements Store {
     }
   }
 
+  private _calcVisibleRangeDataList (): void {
+    const { realFrom, realTo } = this._visibleRange
+    const dataList = this.getCandleDataList()
+    this._visibleRangeDataList = []
+    this._visibleRangeHighLowPrice = [
+      { x: 0, price: Number.MIN_SAFE_INTEGER },
+      { x: 0, price: Number.MAX_SAFE_INTEGER }
+    ]
+    for (let i = realFrom; i < realTo; i++) {
+      const kLineData = dataList[i]
+      const x = this.dataIndexToCoordinate(i)
+      this._visibleRangeDataList.push({
+        dataIndex: i,
+        x,
+        data: {
+          prev: dataList[i - 1] ?? kLineData,
+          current: kLineData,
+          next: dataList[i + 1] ?? kLineData
+        }
+      })
+      if (isValid(kLineData)) {
+        if (this._visibleRangeHighLowPrice[0].price < kLineData.high) {
+          this._visibleRangeHighLowPrice[0].price = kLineData.high
+          this._visibleRangeHighLowPrice[0].x = x
+        }
+        if (this._visibleRangeHighLowPrice[1].price > kLineData.low) {
+          this._visibleRangeHighLowPrice[1].price = kLineData.low
+          this._visibleRangeHighLowPrice[1].x = x
+        }
+      }
+    }
+  }
+
   getBarSpace (): BarSpace {
     return {
       bar: this._barSpace,
@@ -839,6 +1487,14 @@ export default class StoreImp implements Store {
     return Math.round(index * 1000000) / 1000000
   }
 
+  /**
+   * The timestamp span of a bar out of the data list, the transformed data are not in time,
+   * so their keys are continued by one for each bar
+   */
+  private _getProjectionTimeSpan (): number {
+    return isValid(this._dataTransform) ? 1 : this._minTimeSpan.calc
+  }
+
   dataIndexToTimestamp (dataIndex: number): Nullable<number> {
     const length = this._dataList.length
     if (length === 0) {
@@ -850,12 +1506,16 @@ export default class StoreImp implements Store {
     }
     const lastIndex = length - 1
     if (dataIndex > lastIndex) {
-      return this._dataList[lastIndex].timestamp + this._minTimeSpan.calc * (dataIndex - lastIndex)
+      return this._dataList[lastIndex].timestamp + this._getProjectionTimeSpan() * (dataIndex - lastIndex)
     }
     if (dataIndex < 0) {
-      return this._dataList[0].timestamp - this._minTimeSpan.calc * Math.abs(dataIndex)
+      return this._dataList[0].timestamp - this._getProjectionTimeSpan() * Math.abs(dataIndex)
     }
-    return null
+    // The fractional index between two bars, such as the points drawn by dragging
+    const prevIndex = Math.floor(dataIndex)
+    const prevTimestamp = this._dataList[prevIndex].timestamp
+    const nextTimestamp = this._dataList[prevIndex + 1].timestamp
+    return prevTimestamp + (nextTimestamp - prevTimestamp) * (dataIndex - prevIndex)
   }
 
   timestampToDataIndex (timestamp: number): number {
@@ -866,15 +1526,43 @@ export default class StoreImp implements Store {
     const lastIndex = length - 1
     const lastTimestamp = this._dataList[lastIndex].timestamp
     if (timestamp > lastTimestamp) {
-      return lastIndex + Math.floor((timestamp - lastTimestamp) / this._minTimeSpan.calc)
+      return lastIndex + Math.floor((timestamp - lastTimestamp) / this._getProjectionTimeSpan())
     }
     const firstTimestamp = this._dataList[0].timestamp
     if (timestamp < firstTimestamp) {
-      return Math.floor((timestamp - firstTimestamp) / this._minTimeSpan.calc)
+      return Math.floor((timestamp - firstTimestamp) / this._getProjectionTimeSpan())
     }
     return binarySearchNearest(this._dataList, 'timestamp', timestamp)
   }
 
+  /**
+   * Same as `timestampToDataIndex` , but the timestamp between two bars is not snapped to a bar
+   */
+  timestampToFloatDataIndex (timestamp: number): number {
+    const length = this._dataList.length
+    if (length === 0) {
+      return 0
+    }
+    const lastIndex = length - 1
+    const lastTimestamp = this._dataList[lastIndex].timestamp
+    if (timestamp >= lastTimestamp) {
+      return lastIndex + (timestamp - lastTimestamp) / this._getProjectionTimeSpan()
+    }
+    const firstTimestamp = this._dataList[0].timestamp
+    if (timestamp < firstTimestamp) {
+      return (timestamp - firstTimestamp) / this._getProjectionTimeSpan()
+    }
+    let index = binarySearchNearest(this._dataList, 'timestamp', timestamp)
+    while (index > 0 && this._dataList[index].timestamp > timestamp) {
+      index--
+    }
+    while (this._dataList[index + 1].timestamp <= timestamp) {
+      index++
+    }
+    const prevTimestamp = this._dataList[index].timestamp
+    return index + (timestamp - prevTimestamp) / (this._dataList[index + 1].timestamp - prevTimestamp)
+  }
+
   dataIndexToCoordinate (dataIndex: number): number {
     const dataCount = this._dataList.length
     const deltaFromRight = dataCount + this._lastBarRightSideDiffBarCount - dataIndex
@@ -943,7 +1631,7 @@ export default class StoreImp implements Store {
       realDataIndex = this._dataList.length - 1
       dataIndex = realDataIndex
     }
-    const kLineData: Nullable<KLineData> = this._dataList[dataIndex]
+    const kLineData: Nullable<KLineData> = this.getCrosshairDataList()[dataIndex]
     const realX = this.dataIndexToCoordinate(realDataIndex)
     const prevCrosshair = { x: this._crosshair.x, y: this._crosshair.y, paneId: this._crosshair.paneId }
     this._crosshair = { ...cr, realX, kLineData, realDataIndex, dataIndex, timestamp: this.dataIndexToTimestamp(realDataIndex) ?? undefined }
@@ -1006,16 +1694,44 @@ export default class StoreImp implements Store {
     }
   }
 
-  private _addIndicatorCalcTask (indicator: IndicatorImp, loadDataType: LoadDataType): void {
+  private _addIndicatorCalcTask (indicator: IndicatorImp, loadDataType: LoadDataType, range?: Nullable<IndicatorCalcRange>): void {
+    const id = indicator.id
+    let params: Nullable<IndicatorCalcParams> = isValid(range) ? { type: loadDataType, range } : null
+    if (this._indicatorCalcParams.has(id)) {
+      // Merge with the calculation that has not been executed yet,
+      // only consecutive tail changes can be merged, otherwise fall back to the full calculation
+      const prevParams = this._indicatorCalcParams.get(id) ?? null
+      if (
+        prevParams === null ||
+        params === null ||
+        prevParams.type === 'forward' ||
+        params.type === 'forward'
+      ) {
+        params = null
+      } else {
+        params = {
+          type: params.type,
+          range: {
+            from: Math.min(prevParams.range.from, params.range.from),
+            to: Math.max(prevParams.range.to, params.range.to)
+          }
+        }
+      }
+    }
+    this._indicatorCalcParams.set(id, params)
     this._taskScheduler.addTask({
-      id: generateTaskId(indicator.id),
+      id: generateTaskId(id),
       handler: () => {
+        const calcParams = this._indicatorCalcParams.get(id) ?? null
+        this._indicatorCalcParams.delete(id)
         indicator.onDataStateChange?.({
           state: 'loading',
           type: loadDataType,
           indicator
         })
-        indicator.calcImp(this._dataList).then(result => {
+        this._indicatorCalcCount++
+        this._calcIndicator(indicator, calcParams).then(result => {
+          this._indicatorCalcCount--
           if (result) {
             this._chart.layout({
               measureWidth: true,
@@ -1027,13 +1743,17 @@ export default class StoreImp implements Store {
               type: loadDataType,
               indicator
             })
+            this._addIndicatorSourceCalcTasks(indicator)
           }
+          this._checkAlerts()
         }).catch(() => {
+          this._indicatorCalcCount--
           indicator.onDataStateChange?.({
             state: 'error',
             type: loadDataType,
             indicator
           })
+          this._checkAlerts()
         })
       }
     })
@@ -1052,6 +1772,7 @@ export default class StoreImp implements Store {
     this._synchronizeIndicatorSeriesPrecision(indicator)
     indicator.paneId = paneId
     indicator.override(create)
+    this._history.startGroup()
     if (!isStack) {
       this.removeIndicator({ paneId })
       paneIndicators = []
@@ -1060,6 +1781,8 @@ export default class StoreImp implements Store {
     this._indicators.set(paneId, paneIndicators)
     this._sortIndicators(paneId)
     this._addIndicatorCalcTask(indicator, 'init')
+    this._recordIndicatorCreate(indicator)
+    this._history.endGroup()
     return true
   }
 
@@ -1089,21 +1812,124 @@ export default class StoreImp implements Store {
   removeIndicator (filter: IndicatorFilter): boolean {
     let removed = false
     const filterIndicators = this.getIndicatorsByFilter(filter)
+    this._history.startGroup()
     filterIndicators.forEach(indicator => {
       const paneIndicators = this.getIndicatorsByPaneId(indicator.paneId)
       const index = paneIndicators.findIndex(ins => ins.id === indicator.id)
       if (index > -1) {
+        this._recordIndicatorRemove(indicator)
         this._taskScheduler.removeTask(generateTaskId(indicator.id))
+        this._indicatorCalcParams.delete(indicator.id)
+        this._indicatorSourceDataLists.delete(indicator.id)
+        this._indicatorCalcExecutor?.removeIndicator?.(indicator.id)
         paneIndicators.splice(index, 1)
         removed = true
+        this._addIndicatorSourceCalcTasks(indicator)
       }
       if (paneIndicators.length === 0) {
         this._indicators.delete(indicator.paneId)
       }
     })
+    this._history.endGroup()
+    this._checkAlerts()
     return removed
   }
 
+  private _getIndicatorCreate (indicator: IndicatorImp): PickRequired<IndicatorCreate, 'id' | 'name'> {
+    const {
+      id, name, series, figures, shouldUpdate, calc, incrementalCalc, regenerateFigures,
+      createTooltipDataSource, draw, createMarkers, onDataStateChange, onClick
+    } = indicator
+    return {
+      ...this._getIndicatorHistorySnapshot(indicator),
+      id,
+      name,
+      series,
+      figures,
+      shouldUpdate,
+      calc,
+      incrementalCalc,
+      regenerateFigures,
+      createTooltipDataSource,
+      draw,
+      createMarkers,
+      onDataStateChange,
+      onClick
+    }
+  }
+
+  private _getIndicatorHistorySnapshot (indicator: IndicatorImp): IndicatorHistorySnapshot {
+    const {
+      shortName, yAxisId, precision, calcParams, source, timeframe, shouldOhlc, shouldFormatBigNumber,
+      visible, zLevel, extendData, levels, bands, minValue, maxValue, styles
+    } = indicator
+    return clone({
+      shortName,
+      yAxisId,
+      precision,
+      calcParams,
+      source,
+      timeframe,
+      shouldOhlc,
+      shouldFormatBigNumber,
+      visible,
+      zLevel,
+      extendData,
+      levels,
+      bands,
+      minValue,
+      maxValue,
+      styles
+    })
+  }
+
+  private _getPaneOptions (paneId: string): PaneOptions {
+    return clone((this._chart.getPaneOptions(paneId) as Nullable<PaneOptions>) ?? { id: paneId })
+  }
+
+  private _recordIndicatorCreate (indicator: IndicatorImp): void {
+    const { id, paneId } = indicator
+    const create = this._getIndicatorCreate(indicator)
+    // The pane is created after the indicator is added, its options are taken when undoing
+    let paneOptions: PaneOptions = { id: paneId }
+    this._history.record({
+      type: 'indicator_create',
+      undo: () => {
+        paneOptions = this._getPaneOptions(paneId)
+        this._chart.removeIndicator({ id })
+      },
+      redo: () => {
+        this._chart.createIndicator(clone(create), true, clone(paneOptions))
+      }
+    })
+  }
+
+  private _recordIndicatorRemove (indicator: IndicatorImp): void {
+    const { id, paneId } = indicator
+    const create = this._getIndicatorCreate(indicator)
+    let paneOptions = this._getPaneOptions(paneId)
+    this._history.record({
+      type: 'indicator_remove',
+      undo: () => {
+        this._chart.createIndicator(clone(create), true, clone(paneOptions))
+      },
+      redo: () => {
+        paneOptions = this._getPaneOptions(paneId)
+        this._chart.removeIndicator({ id })
+      }
+    })
+  }
+
+  private _restoreIndicator (id: string, snapshot: IndicatorHistorySnapshot): void {
+    const { styles, ...others } = clone(snapshot)
+    this.getIndicatorsByFilter({ id }).forEach(indicator => {
+      // Styles are replaced rather than merged, so the added style keys are removed too
+      indicator.styles = styles
+    })
+    this.overrideIndicator({ id, ...others })
+    this._chart.layout({ update: true })
+  }
+
   hasIndicators (paneId: string): boolean {
     return this._indicators.has(paneId)
   }
@@ -1139,8 +1965,19 @@ export default class StoreImp implements Store {
     let updateFlag = false
     let sortFlag = false
     const filterIndicators = this.getIndicatorsByFilter(override)
+    this._history.startGroup()
     filterIndicators.forEach(indicator => {
+      const prevSnapshot = this._getIndicatorHistorySnapshot(indicator)
       indicator.override(override)
+      const snapshot = this._getIndicatorHistorySnapshot(indicator)
+      if (JSON.stringify(prevSnapshot) !== JSON.stringify(snapshot)) {
+        const id = indicator.id
+        this._history.record({
+          type: 'indicator_override',
+          undo: () => { this._restoreIndicator(id, prevSnapshot) },
+          redo: () => { this._restoreIndicator(id, snapshot) }
+        })
+      }
       const { calc, draw, sort } = indicator.shouldUpdateImp()
       if (sort) {
         sortFlag = true
@@ -1153,6 +1990,7 @@ export default class StoreImp implements Store {
         }
       }
     })
+    this._history.endGroup()
 
     // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- ignore
     if (sortFlag) {
@@ -1166,6 +2004,181 @@ export default class StoreImp implements Store {
     return false
   }
 
+  addSeries (create: SeriesCreate): Nullable<string> {
+    if (this._series.has(create.id)) {
+      logWarn('addSeries', 'id', 'duplicate series id!!!')
+      return null
+    }
+    const lines = this._styles.indicator.lines
+    const color = lines[this._series.size % lines.length].color
+    const { bar } = this._styles.candle
+    const series = new SeriesImp({
+      color,
+      size: 1,
+      areaColor: colorToRgba(color, 0.1),
+      upColor: bar.upColor,
+      downColor: bar.downColor,
+      noChangeColor: bar.noChangeColor
+    })
+    series.override(create)
+    this._series.set(series.id, series)
+    this._layoutSeries()
+    return series.id
+  }
+
+  getSeries (id?: string): SeriesImp[] {
+    if (isValid(id)) {
+      const series = this._series.get(id)
+      return isValid(series) ? [series] : []
+    }
+    return Array.from(this._series.values())
+  }
+
+  overrideSeries (override: SeriesOverride): boolean {
+    const series = this._series.get(override.id)
+    if (isValid(series)) {
+      series.override(override)
+      this._layoutSeries()
+      return true
+    }
+    return false
+  }
+
+  updateSeriesData (id: string, data: KLineData): void {
+    if (this._series.get(id)?.updateData(data) ?? false) {
+      this._layoutSeries()
+    }
+  }
+
+  removeSeries (id?: string): boolean {
+    let removed = false
+    if (isValid(id)) {
+      removed = this._series.delete(id)
+    } else {
+      removed = this._series.size > 0
+      this._series.clear()
+    }
+    if (removed) {
+      this._layoutSeries()
+    }
+    return removed
+  }
+
+  private _layoutSeries (): void {
+    this._chart.layout({
+      measureWidth: true,
+      update: true,
+      buildYAxisTick: true
+    })
+  }
+
+  addAlert (create: AlertCreate): Nullable<string> {
+    const id = create.id ?? createId(ALERT_ID_PREFIX)
+    if (this._alerts.has(id)) {
+      logWarn('addAlert', 'id', 'duplicate alert id!!!')
+      return null
+    }
+    const alert = new AlertImp()
+    alert.override({ ...create, id })
+    this._alerts.set(id, alert)
+    return id
+  }
+
+  getAlerts (id?: string): AlertImp[] {
+    if (isValid(id)) {
+      const alert = this._alerts.get(id)
+      return isValid(alert) ? [alert] : []
+    }
+    return Array.from(this._alerts.values())
+  }
+
+  overrideAlert (override: AlertOverride): boolean {
+    const alert = this._alerts.get(override.id)
+    if (isValid(alert)) {
+      alert.override(override)
+      this._chart.updatePane(UpdateLevel.Main, PaneIdConstants.CANDLE)
+      return true
+    }
+    return false
+  }
+
+  removeAlert (id?: string): boolean {
+    let removed = false
+    if (isValid(id)) {
+      removed = this._alerts.delete(id)
+    } else {
+      removed = this._alerts.size > 0
+      this._alerts.clear()
+    }
+    if (removed) {
+      this._chart.updatePane(UpdateLevel.Main, PaneIdConstants.CANDLE)
+    }
+    return removed
+  }
+
+  /**
+   * The value of the operand at the data index, the overlays are read when checking,
+   * so the alerts follow the overlays when they are moved
+   */
+  private _getAlertOperandValue (operand: AlertOperand, dataIndex: number): Nullable<number> {
+    const kLineData = this._dataList[dataIndex] as KLineData | undefined
+    if (!isValid(kLineData)) {
+      return null
+    }
+    if (isNumber(operand)) {
+      return operand
+    }
+    if (isString(operand)) {
+      return getIndicatorSourceValue(kLineData, operand)
+    }
+    if ('indicatorId' in operand) {
+      const indicator = this.getIndicatorsByFilter({ id: operand.indicatorId })[0] as IndicatorImp | undefined
+      const data = indicator?.result[dataIndex] as Nullable<Record<string, unknown>>
+      const value = data?.[operand.key]
+      return isNumber(value) ? value : null
+    }
+    const overlay = this.getOverlaysByFilter({ id: operand.overlayId })[0] as OverlayImp | undefined
+    if (!isValid(overlay) || overlay.isDrawing()) {
+      return null
+    }
+    return getOverlayAlertValue(overlay, dataIndex, operand.level ?? null, timestamp => this.timestampToDataIndex(timestamp))
+  }
+
+  /**
+   * Check the alerts after the data update, it waits until the indicators are calculated
+   */
+  private _checkAlerts (): void {
+    if (!this._alertCheckPending || this._indicatorCalcParams.size > 0 || this._indicatorCalcCount > 0) {
+      return
+    }
+    this._alertCheckPending = false
+    const dataList = this._dataList
+    const lastIndex = dataList.length - 1
+    const lastTimestamp = dataList[lastIndex]?.timestamp ?? null
+    const closed = this._alertLastTimestamp !== null && lastTimestamp !== this._alertLastTimestamp
+    this._alertLastTimestamp = lastTimestamp
+    let markerFlag = false
+    for (const alert of this._alerts.values()) {
+      let dataIndex = lastIndex
+      if (alert.frequency === 'oncePerBarClose') {
+        if (!closed) {
+          continue
+        }
+        dataIndex = lastIndex - 1
+      }
+      const trigger = alert.check(dataList, dataIndex, (operand, index) => this._getAlertOperandValue(operand, index))
+      if (trigger !== null) {
+        if (isValid(alert.marker)) {
+          markerFlag = true
+        }
+        this.executeAction('onAlert', { alert, kLineData: dataList[dataIndex], value: trigger.value })
+      }
+    }
+    if (markerFlag) {
+      this._chart.updatePane(UpdateLevel.Main, PaneIdConstants.CANDLE)
+    }
+  }
+
   getOverlaysByFilter (filter: OverlayFilter): OverlayImp[] {
     const { id, groupId, paneId, name } = filter
     const match: ((overlay: OverlayImp) => boolean) = overlay => {
@@ -1251,6 +2264,7 @@ export default class StoreImp implements Store {
             this._overlays.set(paneId, [])
           }
           this._overlays.get(paneId)?.push(overlay)
+          this._recordOverlayCreate(overlay)
         }
         if (overlay.isStart()) {
           overlay.onDrawStart?.(({ overlay, chart: this._chart }))
@@ -1283,6 +2297,7 @@ export default class StoreImp implements Store {
         this._overlays.get(paneId)?.push(overlay)
         this._sortOverlays(paneId)
         this._progressOverlayInfo = null
+        this._recordOverlayCreate(overlay)
       }
     }
   }
@@ -1301,8 +2316,13 @@ export default class StoreImp implements Store {
     let sortFlag = false
     const updatePaneIds: string[] = []
     const filterOverlays = this.getOverlaysByFilter(override)
+    this._history.startGroup()
     filterOverlays.forEach(overlay => {
+      const prevSnapshot = this._getOverlayHistorySnapshot(overlay)
       overlay.override(override)
+      if (!overlay.isDrawing()) {
+        this._recordOverlayOverride(overlay, prevSnapshot)
+      }
       const { sort, draw } = overlay.shouldUpdate()
       if (sort) {
         sortFlag = true
@@ -1313,6 +2333,7 @@ export default class StoreImp implements Store {
         }
       }
     })
+    this._history.endGroup()
 
     // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- ignore
     if (sortFlag) {
@@ -1331,6 +2352,7 @@ export default class StoreImp implements Store {
   removeOverlay (filter: OverlayFilter): boolean {
     const updatePaneIds: string[] = []
     const filterOverlays = this.getOverlaysByFilter(filter)
+    this._history.startGroup()
     filterOverlays.forEach(overlay => {
       const paneId = overlay.paneId
       const paneOverlays = this.getOverlaysByPaneId(overlay.paneId)
@@ -1344,12 +2366,18 @@ export default class StoreImp implements Store {
         const index = paneOverlays.findIndex(o => o.id === overlay.id)
         if (index > -1) {
           paneOverlays.splice(index, 1)
+          this._history.record({
+            type: 'overlay_remove',
+            undo: () => { this._attachOverlay(overlay) },
+            redo: () => { this.removeOverlay({ id: overlay.id }) }
+          })
         }
       }
       if (paneOverlays.length === 0) {
         this._overlays.delete(paneId)
       }
     })
+    this._history.endGroup()
     if (updatePaneIds.length > 0) {
       updatePaneIds.forEach(paneId => {
         this._chart.updatePane(UpdateLevel.Overlay, paneId)
@@ -1360,7 +2388,73 @@ export default class StoreImp implements Store {
     return false
   }
 
+  private _attachOverlay (overlay: OverlayImp): void {
+    const paneId = overlay.paneId
+    if (!this._overlays.has(paneId)) {
+      this._overlays.set(paneId, [])
+    }
+    this._overlays.get(paneId)?.push(overlay)
+    this._sortOverlays(paneId)
+    this._chart.updatePane(UpdateLevel.Overlay, paneId)
+    this._chart.updatePane(UpdateLevel.Overlay, PaneIdConstants.X_AXIS)
+  }
+
+  private _getOverlayHistorySnapshot (overlay: OverlayImp): OverlayHistorySnapshot {
+    const { groupId, lock, visible, mode, modeSensitivity, points, extendData, styles } = overlay
+    // The hovered overlay is raised temporarily
+    const zLevel = this._hoverOverlayInfo.overlay === overlay ? overlay.getPrevZLevel() : overlay.zLevel
+    return clone({ groupId, lock, visible, zLevel, mode, modeSensitivity, points, extendData, styles })
+  }
+
+  private _restoreOverlay (overlay: OverlayImp, snapshot: OverlayHistorySnapshot): void {
+    const { groupId, lock, visible, zLevel, mode, modeSensitivity, points, extendData, styles } = clone(snapshot)
+    overlay.groupId = groupId
+    overlay.lock = lock
+    overlay.visible = visible
+    if (this._hoverOverlayInfo.overlay === overlay) {
+      overlay.setPrevZLevel(zLevel)
+    } else {
+      overlay.zLevel = zLevel
+    }
+    overlay.mode = mode
+    overlay.modeSensitivity = modeSensitivity
+    overlay.points = points
+    overlay.extendData = extendData
+    overlay.styles = styles
+    this._sortOverlays(overlay.paneId)
+    this._chart.updatePane(UpdateLevel.Overlay, overlay.paneId)
+    this._chart.updatePane(UpdateLevel.Overlay, PaneIdConstants.X_AXIS)
+  }
+
+  private _recordOverlayCreate (overlay: OverlayImp): void {
+    this._history.record({
+      type: 'overlay_create',
+      undo: () => { this.removeOverlay({ id: overlay.id }) },
+      redo: () => { this._attachOverlay(overlay) }
+    })
+  }
+
+  private _recordOverlayOverride (overlay: OverlayImp, prevSnapshot: OverlayHistorySnapshot): void {
+    const snapshot = this._getOverlayHistorySnapshot(overlay)
+    if (JSON.stringify(prevSnapshot) !== JSON.stringify(snapshot)) {
+      this._history.record({
+        type: 'overlay_override',
+        undo: () => { this._restoreOverlay(overlay, prevSnapshot) },
+        redo: () => { this._restoreOverlay(overlay, snapshot) }
+      })
+    }
+  }
+
   setPressedOverlayInfo (info: EventOverlayInfo): void {
+    const prevOverlay = this._pressedOverlayInfo.overlay
+    if (prevOverlay !== info.overlay) {
+      // The whole drag is recorded as one entry when the overlay is released
+      if (prevOverlay !== null && this._pressedOverlaySnapshot !== null) {
+        this._recordOverlayOverride(prevOverlay, this._pressedOverlaySnapshot)
+      }
+      const overlay = info.overlay
+      this._pressedOverlaySnapshot = overlay !== null && !overlay.isDrawing() ? this._getOverlayHistorySnapshot(overlay) : null
+    }
     this._pressedOverlayInfo = info
   }
 
@@ -1463,6 +2557,11 @@ export default class StoreImp implements Store {
     this._loadDataMore.forward = false
     this._loading = true
     this._dataList = []
+    this._transformSourceDataList = []
+    this._dataTransformState = {}
+    this._resampledDataList = []
+    this._heikinAshiDataList = []
+    this._heikinAshiCalcFromIndex = 0
     this._visibleRangeDataList = []
     this._visibleRangeHighLowPrice = [
       { x: 0, price: Number.MIN_SAFE_INTEGER },
@@ -1472,6 +2571,11 @@ export default class StoreImp implements Store {
     this._timeWeightTickMap.clear()
     this._timeWeightTickList = []
     this._crosshair = {}
+    this._alertCheckPending = false
+    this._alertLastTimestamp = null
+    this._alerts.forEach(alert => {
+      alert.triggers = []
+    })
   }
 
   getChart (): Chart {
@@ -1482,8 +2586,50 @@ export default class StoreImp implements Store {
     this.clearData()
     this._clearLastPriceMarkExtendTextUpdateTimer()
     this._taskScheduler.removeTask()
+    this._indicatorCalcParams.clear()
+    this._indicatorSourceDataLists.clear()
+    this._indicatorCalcExecutor?.destroy?.()
+    this._indicatorCalcExecutor = null
     this._overlays.clear()
+    this._series.clear()
+    this._alerts.clear()
     this._indicators.clear()
+    this._history.clear()
     this._actions.clear()
   }
+
+  undo (): boolean {
+    return this._history.undo()
+  }
+
+  redo (): boolean {
+    return this._history.redo()
+  }
+
+  getHistoryState (): HistoryState {
+    return this._history.getState()
+  }
+
+  setHistoryMaxDepth (depth: number): void {
+    this._history.setMaxDepth(depth)
+  }
+
+  getHistoryMaxDepth (): number {
+    return this._history.getMaxDepth()
+  }
+
+  /**
+   * The edits made until `endHistoryGroup` is called are undone and redone as one entry
+   */
+  startHistoryGroup (): void {
+    this._history.startGroup()
+  }
+
+  endHistoryGroup (): void {
+    this._history.endGroup()
+  }
+
+  clearHistory (): void {
+    this._history.clear()
+  }
 }
@@ -0,0 +1,115 @@
+/**
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+
+ * http://www.apache.org/licenses/LICENSE-2.0
+
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type Nullable from './Nullable'
+import type DeepPartial from './DeepPartial'
+import type Point from './Point'
+import type Precision from './Precision'
+import type { Period } from './Period'
+import type { IndicatorStyle, OverlayStyle, Styles } from './Styles'
+
+import type { AxisGap, AxisPosition } from '../component/Axis'
+import type { IndicatorBand, IndicatorLevel, IndicatorSource } from '../component/Indicator'
+import type { OverlayMode } from '../component/Overlay'
+import type { PaneState } from '../pane/types'
+
+export const CHART_STATE_VERSION = 1
+
+export interface ChartStateAxis {
+  name: string
+  reverse: boolean
+  inside: boolean
+  position: AxisPosition
+  scrollZoomEnabled: boolean
+  gap: AxisGap
+}
+
+export interface ChartStatePane {
+  id: string
+  order: number
+  height: number
+  minHeight: number
+  dragEnabled: boolean
+  state: PaneState
+  axis: ChartStateAxis
+  yAxes: Array<ChartStateAxis & { id: string }>
+}
+
+export interface ChartStateIndicator {
+  id: string
+  paneId: string
+  name: string
+  yAxisId: Nullable<string>
+  shortName: string
+  precision: number
+  calcParams: unknown[]
+  source: IndicatorSource
+  timeframe: Nullable<Period>
+  shouldOhlc: boolean
+  shouldFormatBigNumber: boolean
+  visible: boolean
+  zLevel: number
+  extendData: unknown
+  levels: IndicatorLevel[]
+  bands: IndicatorBand[]
+  minValue: Nullable<number>
+  maxValue: Nullable<number>
+  styles: Nullable<DeepPartial<IndicatorStyle>>
+}
+
+export interface ChartStateOverlay {
+  id: string
+  groupId: string
+  paneId: string
+  name: string
+  lock: boolean
+  visible: boolean
+  zLevel: number
+  mode: OverlayMode
+  modeSensitivity: number
+  points: Array<Partial<Point>>
+  extendData: unknown
+  styles: Nullable<DeepPartial<OverlayStyle>>
+}
+
+/**
+ * The serializable snapshot of the chart, the data list is not included
+ */
+export interface ChartState {
+  version: number
+  /**
+   * The panes in the display order, the x-axis pane is not included
+   */
+  panes: ChartStatePane[]
+  indicators: ChartStateIndicator[]
+  overlays: ChartStateOverlay[]
+  /**
+   * The styles set by `setStyles` , the default styles are not included
+   */
+  styles: DeepPartial<Styles>
+  locale: string
+  timezone: string
+  precision: Precision
+  barSpace: number
+  offsetRightDistance: number
+  /**
+   * The scroll position, the number of bars between the last bar and the right side of the chart
+   */
+  lastBarRightSideDiffBarCount: number
+}
+
+/**
+ * Migrate the state exported by the other versions to the current version
+ */
+export type ChartStateMigrateCallback = (state: ChartState) => ChartState
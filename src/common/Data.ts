@@ -31,6 +31,13 @@ export interface KLineData {
   [key: string]: unknown
 }
 
+export interface TickData {
+  timestamp: number
+  price: number
+  volume?: number
+  turnover?: number
+}
+
 export interface VisibleRangeData {
   dataIndex: number
   x: number
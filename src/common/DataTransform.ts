@@ -0,0 +1,47 @@
+/**
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+
+ * http://www.apache.org/licenses/LICENSE-2.0
+
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { KLineData } from './Data'
+import type { LoadDataType } from './LoadDataCallback'
+
+export interface DataTransformParams {
+  calcParams: unknown[]
+  type: LoadDataType
+  /**
+   * State kept between transformations, it is reset when the data is initialized,
+   * it can be used to continue the transformation from the last one when the type is `update`
+   */
+  state: Record<string, unknown>
+}
+
+/**
+ * Transform the source data list into the data list to draw,
+ * the result does not need to map 1:1 to the source data.
+ * The timestamps of the result can be the same, the chart makes them unique and increasing
+ * to use them as the keys of the x-axis, and keeps the original one as `sourceTimestamp`
+ */
+export type DataTransformCallback = (dataList: KLineData[], params: DataTransformParams) => KLineData[]
+
+export interface DataTransformTemplate {
+  name: string
+  calcParams?: unknown[]
+  transform: DataTransformCallback
+}
+
+export interface DataTransform {
+  name: string
+  calcParams: unknown[]
+}
+
+export type DataTransformCreate = Pick<DataTransform, 'name'> & Partial<Pick<DataTransform, 'calcParams'>>
@@ -0,0 +1,184 @@
+/**
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+
+ * http://www.apache.org/licenses/LICENSE-2.0
+
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type Nullable from './Nullable'
+
+export type HistoryRecordType = 'overlay_create' | 'overlay_override' | 'overlay_remove' | 'indicator_create' | 'indicator_override' | 'indicator_remove'
+
+export interface HistoryRecord {
+  type: HistoryRecordType
+  undo: () => void
+  redo: () => void
+}
+
+export interface HistoryState {
+  canUndo: boolean
+  canRedo: boolean
+  /**
+   * The record types of the entry to undo
+   */
+  undoTypes: HistoryRecordType[]
+  /**
+   * The record types of the entry to redo
+   */
+  redoTypes: HistoryRecordType[]
+}
+
+export const DEFAULT_HISTORY_MAX_DEPTH = 100
+
+/**
+ * Undo and redo stacks, the records added in a group are undone and redone as one entry
+ */
+export default class History {
+  private _undoEntries: HistoryRecord[][] = []
+  private _redoEntries: HistoryRecord[][] = []
+
+  private _maxDepth = DEFAULT_HISTORY_MAX_DEPTH
+
+  private _groupRecords: Nullable<HistoryRecord[]> = null
+  private _groupDepth = 0
+
+  /**
+   * Whether an entry is being undone or redone, the changes made meanwhile are not recorded
+   */
+  private _applying = false
+
+  private readonly _onChange: () => void
+
+  constructor (onChange: () => void) {
+    this._onChange = onChange
+  }
+
+  record (record: HistoryRecord): void {
+    if (this._applying) {
+      return
+    }
+    if (this._groupRecords !== null) {
+      this._groupRecords.push(record)
+    } else {
+      this._push([record])
+    }
+  }
+
+  startGroup (): void {
+    if (this._groupDepth === 0) {
+      this._groupRecords = []
+    }
+    this._groupDepth++
+  }
+
+  endGroup (): void {
+    if (this._groupDepth === 0) {
+      return
+    }
+    this._groupDepth--
+    if (this._groupDepth === 0) {
+      const records = this._groupRecords!
+      this._groupRecords = null
+      if (records.length > 0) {
+        this._push(records)
+      }
+    }
+  }
+
+  private _push (entry: HistoryRecord[]): void {
+    this._undoEntries.push(entry)
+    if (this._undoEntries.length > this._maxDepth) {
+      this._undoEntries.splice(0, this._undoEntries.length - this._maxDepth)
+    }
+    this._redoEntries = []
+    this._onChange()
+  }
+
+  undo (): boolean {
+    const entry = this._undoEntries.pop()
+    if (entry === undefined) {
+      return false
+    }
+    this._apply(() => {
+      for (let i = entry.length - 1; i > -1; i--) {
+        entry[i].undo()
+      }
+    })
+    this._redoEntries.push(entry)
+    this._onChange()
+    return true
+  }
+
+  redo (): boolean {
+    const entry = this._redoEntries.pop()
+    if (entry === undefined) {
+      return false
+    }
+    this._apply(() => {
+      entry.forEach(record => { record.redo() })
+    })
+    this._undoEntries.push(entry)
+    this._onChange()
+    return true
+  }
+
+  private _apply (fn: () => void): void {
+    this._applying = true
+    try {
+      fn()
+    } finally {
+      this._applying = false
+    }
+  }
+
+  isApplying (): boolean {
+    return this._applying
+  }
+
+  setMaxDepth (depth: number): void {
+    this._maxDepth = depth
+    let changed = false
+    if (this._undoEntries.length > depth) {
+      this._undoEntries.splice(0, this._undoEntries.length - depth)
+      changed = true
+    }
+    if (this._redoEntries.length > depth) {
+      this._redoEntries.splice(0, this._redoEntries.length - depth)
+      changed = true
+    }
+    if (changed) {
+      this._onChange()
+    }
+  }
+
+  getMaxDepth (): number {
+    return this._maxDepth
+  }
+
+  getState (): HistoryState {
+    const undoEntry = this._undoEntries[this._undoEntries.length - 1] ?? []
+    const redoEntry = this._redoEntries[this._redoEntries.length - 1] ?? []
+    return {
+      canUndo: this._undoEntries.length > 0,
+      canRedo: this._redoEntries.length > 0,
+      undoTypes: undoEntry.map(({ type }) => type),
+      redoTypes: redoEntry.map(({ type }) => type)
+    }
+  }
+
+  clear (): void {
+    const changed = this._undoEntries.length > 0 || this._redoEntries.length > 0
+    this._undoEntries = []
+    this._redoEntries = []
+    if (changed) {
+      this._onChange()
+    }
+  }
+}
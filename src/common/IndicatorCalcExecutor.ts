@@ -0,0 +1,298 @@
+/**
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+
+ * http://www.apache.org/licenses/LICENSE-2.0
+
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type Nullable from './Nullable'
+import type { KLineData } from './Data'
+import type { LoadDataType } from './LoadDataCallback'
+import { isString, isValid } from './utils/typeChecks'
+import { createDateTimeFormat } from './utils/format'
+
+import type IndicatorImp from '../component/Indicator'
+import type { Indicator, IndicatorCalcContext, IndicatorCalcParams, IndicatorCalcRange, IndicatorFigure } from '../component/Indicator'
+import { updateIndicatorSourceDataList } from '../component/Indicator'
+
+import { getIndicatorClass } from '../extension/indicator/index'
+
+export interface IndicatorCalcExecutor {
+  /**
+   * Synchronize the data list, `range` is the changed data index range, `null` means the whole data list
+   */
+  syncData?: (dataList: KLineData[], type: LoadDataType, range: Nullable<IndicatorCalcRange>) => void
+
+  /**
+   * Calculate the indicator, the close of the data list is the value of the source of the indicator,
+   * resolving `null` means the calculation is performed on the main thread
+   */
+  calc: (indicator: Indicator, dataList: KLineData[], params: Nullable<IndicatorCalcParams>, context: IndicatorCalcContext) => Promise<Nullable<unknown[]>>
+
+  /**
+   * Indicator removed
+   */
+  removeIndicator?: (id: string) => void
+
+  destroy?: () => void
+}
+
+export interface IndicatorCalcWorkerMessageEvent {
+  data: unknown
+}
+
+export type IndicatorCalcWorkerMessageListener = (event: IndicatorCalcWorkerMessageEvent) => void
+
+/**
+ * The minimal interface of `Worker` and `DedicatedWorkerGlobalScope`
+ */
+export interface IndicatorCalcWorkerLike {
+  postMessage: (message: unknown) => void
+  addEventListener: (type: 'message', listener: IndicatorCalcWorkerMessageListener) => void
+  removeEventListener: (type: 'message', listener: IndicatorCalcWorkerMessageListener) => void
+}
+
+interface DataMessage {
+  type: 'data'
+  loadDataType: LoadDataType
+  range: Nullable<IndicatorCalcRange>
+  dataList: KLineData[]
+}
+
+interface CalcMessage {
+  type: 'calc'
+  taskId: number
+  indicator: Pick<Indicator, 'id' | 'name' | 'calcParams' | 'source' | 'extendData'> & { figures: IndicatorFigure[] }
+  params: Nullable<IndicatorCalcParams>
+  /**
+   * The formatter can not be posted, it is created again in the worker
+   */
+  timezone: string
+}
+
+interface RemoveMessage {
+  type: 'remove'
+  id: string
+}
+
+type WorkerRequestMessage = DataMessage | CalcMessage | RemoveMessage
+
+interface ResultMessage {
+  type: 'result'
+  taskId: number
+  from: number
+  result: unknown[]
+}
+
+interface UnsupportedMessage {
+  type: 'unsupported'
+  taskId: number
+}
+
+interface ErrorMessage {
+  type: 'error'
+  taskId: number
+}
+
+type WorkerResponseMessage = ResultMessage | UnsupportedMessage | ErrorMessage
+
+interface PendingTask {
+  indicator: Indicator
+  resolve: (result: Nullable<unknown[]>) => void
+  reject: (reason?: unknown) => void
+}
+
+/**
+ * Create an executor which performs the indicator calculation in the worker,
+ * the worker needs to call `setupIndicatorCalcWorker`.
+ *
+ * Only the indicators registered in the worker are calculated there,
+ * others and the indicators with a custom `calc` are still calculated on the main thread.
+ */
+export function createIndicatorCalcWorkerExecutor (worker: IndicatorCalcWorkerLike): IndicatorCalcExecutor {
+  let taskId = 0
+  const pendingTasks = new Map<number, PendingTask>()
+
+  const listener: IndicatorCalcWorkerMessageListener = event => {
+    const message = event.data as WorkerResponseMessage
+    const task = pendingTasks.get(message.taskId)
+    if (!isValid(task)) {
+      return
+    }
+    pendingTasks.delete(message.taskId)
+    switch (message.type) {
+      case 'result': {
+        // The worker only sends back the results starting from `from`
+        const result = message.from > 0 ? task.indicator.result : []
+        result.length = message.from
+        message.result.forEach(data => { result.push(data) })
+        task.resolve(result)
+        break
+      }
+      case 'unsupported': {
+        task.resolve(null)
+        break
+      }
+      default: {
+        task.reject(new Error('Indicator calculation error in worker'))
+        break
+      }
+    }
+  }
+  worker.addEventListener('message', listener)
+
+  const post: ((message: WorkerRequestMessage) => boolean) = message => {
+    try {
+      worker.postMessage(message)
+      return true
+    } catch (e) {
+      // The message may not be cloneable, such as `extendData` contains functions
+      return false
+    }
+  }
+
+  return {
+    syncData: (dataList, type, range) => {
+      if (type !== 'init' && isValid(range)) {
+        post({ type: 'data', loadDataType: type, range, dataList: dataList.slice(range.from, range.to) })
+      } else {
+        post({ type: 'data', loadDataType: 'init', range: null, dataList })
+      }
+    },
+    calc: async (indicator, _, params, { dateTimeFormat }) => {
+      const IndicatorClazz = getIndicatorClass(indicator.name)
+      if (IndicatorClazz === null || new IndicatorClazz().calc !== indicator.calc) {
+        return null
+      }
+      const id = ++taskId
+      // eslint-disable-next-line promise/avoid-new -- ignore
+      return await new Promise((resolve, reject) => {
+        pendingTasks.set(id, { indicator, resolve, reject })
+        const { id: indicatorId, name, calcParams, source, extendData, figures } = indicator
+        const success = post({
+          type: 'calc',
+          taskId: id,
+          indicator: {
+            id: indicatorId,
+            name,
+            calcParams,
+            source,
+            extendData,
+            figures: figures.map(({ key, title, type, baseValue, between, shift }) => ({ key, title, type, baseValue, between, shift }))
+          },
+          params,
+          timezone: dateTimeFormat.resolvedOptions().timeZone
+        })
+        if (!success) {
+          pendingTasks.delete(id)
+          resolve(null)
+        }
+      })
+    },
+    removeIndicator: id => {
+      post({ type: 'remove', id })
+    },
+    destroy: () => {
+      worker.removeEventListener('message', listener)
+      pendingTasks.forEach(task => { task.resolve(null) })
+      pendingTasks.clear()
+    }
+  }
+}
+
+/**
+ * Handle the messages from `createIndicatorCalcWorkerExecutor` in the worker
+ */
+export function setupIndicatorCalcWorker (scope: IndicatorCalcWorkerLike): void {
+  let dataList: KLineData[] = []
+  const indicators = new Map<string, IndicatorImp>()
+  // The data lists whose close is the value of the source, for the indicators whose source is not `close`
+  const sourceDataLists = new Map<string, KLineData[]>()
+  let dateTimeFormat: Nullable<Intl.DateTimeFormat> = null
+
+  const handleData: ((message: DataMessage) => void) = ({ loadDataType, range, dataList: list }) => {
+    switch (loadDataType) {
+      case 'init': {
+        dataList = list
+        break
+      }
+      case 'forward': {
+        dataList = list.concat(dataList)
+        break
+      }
+      default: {
+        const from = range!.from
+        list.forEach((data, index) => { dataList[from + index] = data })
+        // The transformed data list may be shortened
+        dataList.length = range!.to
+        break
+      }
+    }
+  }
+
+  const handleCalc: ((message: CalcMessage) => void) = ({ taskId, indicator: { id, name, calcParams, source, extendData, figures }, params, timezone }) => {
+    let indicator = indicators.get(id) ?? null
+    if (indicator?.name !== name) {
+      const IndicatorClazz = getIndicatorClass(name)
+      if (IndicatorClazz === null) {
+        scope.postMessage({ type: 'unsupported', taskId })
+        return
+      }
+      indicator = new IndicatorClazz()
+      indicator.override({ id })
+      indicators.set(id, indicator)
+    }
+    indicator.override({ calcParams, extendData, figures })
+    if (dateTimeFormat?.resolvedOptions().timeZone !== timezone) {
+      dateTimeFormat = createDateTimeFormat(timezone)
+    }
+    const from = isValid(params) && params.type !== 'forward' ? params.range.from : 0
+    let calcDataList = dataList
+    if (isString(source) && source !== 'close') {
+      const sourceDataList = sourceDataLists.get(id) ?? []
+      if (!updateIndicatorSourceDataList(sourceDataList, dataList, source, from)) {
+        sourceDataLists.delete(id)
+        scope.postMessage({ type: 'unsupported', taskId })
+        return
+      }
+      sourceDataLists.set(id, sourceDataList)
+      calcDataList = sourceDataList
+    }
+    const calcIndicator = indicator
+    calcIndicator.calcImp(calcDataList, params, { dateTimeFormat }).then(success => {
+      if (success) {
+        scope.postMessage({ type: 'result', taskId, from, result: calcIndicator.result.slice(from) })
+      } else {
+        scope.postMessage({ type: 'error', taskId })
+      }
+    }).catch(() => {
+      scope.postMessage({ type: 'error', taskId })
+    })
+  }
+
+  scope.addEventListener('message', event => {
+    const message = event.data as WorkerRequestMessage
+    switch (message.type) {
+      case 'data': {
+        handleData(message)
+        break
+      }
+      case 'calc': {
+        handleCalc(message)
+        break
+      }
+      case 'remove': {
+        indicators.delete(message.id)
+        sourceDataLists.delete(message.id)
+        break
+      }
+    }
+  })
+}
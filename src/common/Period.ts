@@ -0,0 +1,177 @@
+/**
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+
+ * http://www.apache.org/licenses/LICENSE-2.0
+
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type Nullable from './Nullable'
+import type { KLineData } from './Data'
+import { isNumber, isValid } from './utils/typeChecks'
+import { formatTimestampToDateTime } from './utils/format'
+
+export type PeriodType = 'second' | 'minute' | 'hour' | 'day' | 'week' | 'month'
+
+export interface Period {
+  type: PeriodType
+  span: number
+}
+
+/**
+ * Trading session in the chart timezone, the format of `start` and `end` is `HH:mm`,
+ * `end` before `start` means the session crosses midnight
+ */
+export interface PeriodSession {
+  start: string
+  end: string
+}
+
+const SECOND = 1000
+const MINUTE = 60 * SECOND
+const HOUR = 60 * MINUTE
+const DAY = 24 * HOUR
+
+const PERIOD_INTRADAY_UNITS: Partial<Record<PeriodType, number>> = {
+  second: SECOND,
+  minute: MINUTE,
+  hour: HOUR
+}
+
+function mod (value: number, divisor: number): number {
+  return ((value % divisor) + divisor) % divisor
+}
+
+/**
+ * The difference between the wall clock time in the timezone and UTC
+ */
+function getTimezoneOffset (dateTimeFormat: Intl.DateTimeFormat, timestamp: number): number {
+  const { YYYY, MM, DD, HH, mm, ss } = formatTimestampToDateTime(dateTimeFormat, timestamp)
+  const wallTime = Date.UTC(+YYYY, +MM - 1, +DD, +HH, +mm, +ss)
+  return wallTime - (timestamp - mod(timestamp, SECOND))
+}
+
+function wallTimeToTimestamp (dateTimeFormat: Intl.DateTimeFormat, wallTime: number, referenceOffset: number): number {
+  const timestamp = wallTime - referenceOffset
+  // The offset may be different at the result when the daylight saving time changes in between
+  return wallTime - getTimezoneOffset(dateTimeFormat, timestamp)
+}
+
+function parseSessionTime (time: string): number {
+  const [hour, minute = '0'] = time.split(':')
+  return (+hour) * HOUR + (+minute) * MINUTE
+}
+
+export function isTimestampInSession (dateTimeFormat: Intl.DateTimeFormat, timestamp: number, session: PeriodSession): boolean {
+  const time = mod(timestamp + getTimezoneOffset(dateTimeFormat, timestamp), DAY)
+  const start = parseSessionTime(session.start)
+  const duration = mod(parseSessionTime(session.end) - start, DAY)
+  return duration === 0 || mod(time - start, DAY) < duration
+}
+
+interface PeriodRange {
+  start: number
+  end: number
+}
+
+function getPeriodWallTimeRange (wallTime: number, period: Period): PeriodRange {
+  const span = Math.max(1, Math.floor(period.span))
+  const days = Math.floor(wallTime / DAY)
+  switch (period.type) {
+    case 'day': {
+      const start = (days - mod(days, span)) * DAY
+      return { start, end: start + span * DAY }
+    }
+    case 'week': {
+      // 1970-01-01 is Thursday
+      const weeks = Math.floor((days + 3) / 7)
+      const start = ((weeks - mod(weeks, span)) * 7 - 3) * DAY
+      return { start, end: start + span * 7 * DAY }
+    }
+    case 'month': {
+      const date = new Date(wallTime)
+      const months = date.getUTCFullYear() * 12 + date.getUTCMonth()
+      const startMonths = months - mod(months, span)
+      return {
+        start: Date.UTC(Math.floor(startMonths / 12), mod(startMonths, 12), 1),
+        end: Date.UTC(Math.floor((startMonths + span) / 12), mod(startMonths + span, 12), 1)
+      }
+    }
+    default: {
+      // The intraday periods are aligned to the start of the day
+      const size = PERIOD_INTRADAY_UNITS[period.type]! * span
+      const dayWallTime = days * DAY
+      const start = dayWallTime + Math.floor((wallTime - dayWallTime) / size) * size
+      return { start, end: Math.min(start + size, dayWallTime + DAY) }
+    }
+  }
+}
+
+/**
+ * Get the range of the period containing the timestamp, the end is exclusive,
+ * the days start at the session start when there is a session, the weeks start on Monday.
+ */
+export function getPeriodRange (
+  dateTimeFormat: Intl.DateTimeFormat,
+  timestamp: number,
+  period: Period,
+  session?: Nullable<PeriodSession>
+): PeriodRange {
+  const dayStart = isValid(session) ? parseSessionTime(session.start) : 0
+  const offset = getTimezoneOffset(dateTimeFormat, timestamp)
+  const { start, end } = getPeriodWallTimeRange(timestamp + offset - dayStart, period)
+  return {
+    start: wallTimeToTimestamp(dateTimeFormat, start + dayStart, offset),
+    end: wallTimeToTimestamp(dateTimeFormat, end + dayStart, offset)
+  }
+}
+
+export function getPeriodStartTimestamp (
+  dateTimeFormat: Intl.DateTimeFormat,
+  timestamp: number,
+  period: Period,
+  session?: Nullable<PeriodSession>
+): number {
+  return getPeriodRange(dateTimeFormat, timestamp, period, session).start
+}
+
+/**
+ * Aggregate the data list into the bars of the period, the data list must be sorted by timestamp
+ */
+export function resampleDataList (
+  dateTimeFormat: Intl.DateTimeFormat,
+  dataList: KLineData[],
+  period: Period,
+  session?: Nullable<PeriodSession>
+): KLineData[] {
+  const result: KLineData[] = []
+  let range: Nullable<PeriodRange> = null
+  let bar: Nullable<KLineData> = null
+  dataList.forEach(data => {
+    const { timestamp } = data
+    if (range === null || timestamp < range.start || timestamp >= range.end) {
+      // The range is only calculated once for each bar, formatting the timestamp is expensive
+      range = getPeriodRange(dateTimeFormat, timestamp, period, session)
+      bar = { ...data, timestamp: range.start }
+      result.push(bar)
+    } else {
+      const current = bar!
+      current.high = Math.max(current.high, data.high)
+      current.low = Math.min(current.low, data.low)
+      current.close = data.close
+      if (isNumber(data.volume)) {
+        current.volume = (current.volume ?? 0) + data.volume
+      }
+      if (isNumber(data.turnover)) {
+        current.turnover = (current.turnover ?? 0) + data.turnover
+      }
+    }
+  })
+  return result
+}
@@ -234,7 +234,14 @@ export interface CandleTooltipStyle extends TooltipStyle, Offset {
   rect: CandleTooltipRectStyle
 }
 
-export type CandleType = 'candle_solid' | 'candle_stroke' | 'candle_up_stroke' | 'candle_down_stroke' | 'ohlc' | 'area'
+export type CandleType = 'candle_solid' | 'candle_stroke' | 'candle_up_stroke' | 'candle_down_stroke' | 'ohlc' | 'area' | 'heikin_ashi'
+
+export interface CandleHeikinAshiStyle {
+  /**
+   * Whether the crosshair and tooltip show the real prices instead of the heikin-ashi prices
+   */
+  showRealPrice: boolean
+}
 
 export type CandleColorCompareRule = 'current_open' | 'previous_close'
 
@@ -252,6 +259,7 @@ export interface CandleStyle {
   type: CandleType
   bar: CandleBarColor
   area: CandleAreaStyle
+  heikinAshi: CandleHeikinAshiStyle
   priceMark: CandlePriceMarkStyle
   tooltip: CandleTooltipStyle
 }
@@ -263,6 +271,31 @@ export interface IndicatorLastValueMarkStyle {
   text: LastValueMarkTextStyle
 }
 
+export interface IndicatorBandStyle {
+  show: boolean
+  color: string
+}
+
+export interface IndicatorLevelStyle {
+  line: StateLineStyle
+  band: IndicatorBandStyle
+  mark: IndicatorLastValueMarkStyle
+}
+
+export interface IndicatorMarkerStyle {
+  /**
+   * The width and height of the shape
+   */
+  size: number
+  /**
+   * The distance to the high or low of the candle
+   */
+  offset: number
+  aboveColor: string
+  belowColor: string
+  text: Pick<TextStyle, 'size' | 'family' | 'weight'>
+}
+
 export interface IndicatorTooltipStyle extends TooltipStyle, Offset {
   showName: boolean
   showParams: boolean
@@ -273,6 +306,9 @@ export interface IndicatorStyle {
   bars: IndicatorPolygonStyle[]
   lines: SmoothLineStyle[]
   circles: IndicatorPolygonStyle[]
+  fills: IndicatorPolygonStyle[]
+  levels: IndicatorLevelStyle
+  markers: IndicatorMarkerStyle
   lastValueMark: IndicatorLastValueMarkStyle
   tooltip: IndicatorTooltipStyle
   [key: string]: unknown
@@ -426,6 +462,9 @@ function getDefaultCandleStyle (): CandleStyle {
         animationDuration: 1000
       }
     },
+    heikinAshi: {
+      showRealPrice: false
+    },
     priceMark: {
       show: true,
       high: { ...highLow },
@@ -546,6 +585,59 @@ function getDefaultIndicatorStyle (): IndicatorStyle {
       downColor: alphaRed,
       noChangeColor: Color.GREY
     }],
+    fills: [{
+      style: 'fill',
+      borderStyle: 'solid',
+      borderSize: 1,
+      borderDashedValue: [2, 2],
+      upColor: hexToRgb(Color.GREEN, 0.15),
+      downColor: hexToRgb(Color.RED, 0.15),
+      noChangeColor: hexToRgb(Color.GREY, 0.15)
+    }],
+    levels: {
+      line: {
+        show: true,
+        style: 'dashed',
+        size: 1,
+        color: Color.GREY,
+        dashedValue: [4, 2]
+      },
+      band: {
+        show: true,
+        color: hexToRgb(Color.BLUE, 0.08)
+      },
+      mark: {
+        show: true,
+        text: {
+          show: true,
+          style: 'fill',
+          color: Color.WHITE,
+          size: 12,
+          family: 'Helvetica Neue',
+          weight: 'normal',
+          borderStyle: 'solid',
+          borderColor: 'transparent',
+          borderSize: 0,
+          borderDashedValue: [2, 2],
+          paddingLeft: 4,
+          paddingTop: 4,
+          paddingRight: 4,
+          paddingBottom: 4,
+          borderRadius: 2
+        }
+      }
+    },
+    markers: {
+      size: 10,
+      offset: 6,
+      aboveColor: Color.RED,
+      belowColor: Color.GREEN,
+      text: {
+        size: 12,
+        family: 'Helvetica Neue',
+        weight: 'normal'
+      }
+    },
     lastValueMark: {
       show: false,
       text: {
@@ -63,7 +63,8 @@ export function classifyTimeWeightTicks (
         weight = TimeWeightConstants.Second
       }
     }
-    if (isNumber(prevTimestamp) && isNumber(minTimeSpan?.compare)) {
+    // Transformed data may share the same timestamp
+    if (isNumber(prevTimestamp) && isNumber(minTimeSpan?.compare) && timestamp > prevTimestamp) {
       minTimeSpan.compare = Math.min(minTimeSpan.compare, timestamp - prevTimestamp)
     }
     const currentTimeWeightList = map.get(weight) ?? []
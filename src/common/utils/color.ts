@@ -12,8 +12,11 @@
  * limitations under the License.
  */
 
+import type Nullable from '../Nullable'
 import { isValid } from './typeChecks'
 
+let colorCtx: Nullable<CanvasRenderingContext2D> = null
+
 const rgbaRegExp = /^[rR][gG][Bb][Aa]\(([\s]*(2[0-4][0-9]|25[0-5]|[01]?[0-9][0-9]?)[\s]*,){3}[\s]*(1|1.0|0|0.[0-9])[\s]*\){1}$/
 
 export function isRgba (color: string): boolean {
@@ -54,3 +57,27 @@ export function hexToRgb (hex: string, alpha?: number): string {
 
   return `rgba(${r}, ${g}, ${b}, ${alpha ?? 1})`
 }
+
+/**
+ * Apply the opacity to any css color, the color is normalized by the canvas
+ * to `#rrggbb` or `rgba(r, g, b, a)` first, the invalid color is returned as it is
+ */
+export function colorToRgba (color: string, alpha: number): string {
+  if (!isValid(colorCtx)) {
+    colorCtx = document.createElement('canvas').getContext('2d')
+  }
+  if (!isValid(colorCtx)) {
+    return color
+  }
+  colorCtx.fillStyle = '#000000'
+  colorCtx.fillStyle = color
+  const normalized = colorCtx.fillStyle
+  if (normalized.startsWith('#')) {
+    return hexToRgb(normalized, alpha)
+  }
+  const match = /^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*(?:,\s*([\d.]+)\s*)?\)$/.exec(normalized)
+  if (!isValid(match)) {
+    return color
+  }
+  return `rgba(${match[1]}, ${match[2]}, ${match[3]}, ${(isValid(match[4]) ? parseFloat(match[4]) : 1) * alpha})`
+}
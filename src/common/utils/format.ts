@@ -57,6 +57,25 @@ export function formatValue (data: unknown, key: string, defaultValue?: unknown)
   return defaultValue ?? '--'
 }
 
+/**
+ * Create the formatter used to get the date time in the timezone, the invalid timezone throws an error
+ */
+export function createDateTimeFormat (timezone: string): Intl.DateTimeFormat {
+  const options: Intl.DateTimeFormatOptions = {
+    hour12: false,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }
+  if (timezone.length > 0) {
+    options.timeZone = timezone
+  }
+  return new Intl.DateTimeFormat('en', options)
+}
+
 export function formatTimestampToDateTime (dateTimeFormat: Intl.DateTimeFormat, timestamp: number): DateTime {
   const date: Record<string, string> = {}
   dateTimeFormat.formatToParts(new Date(timestamp)).forEach(({ type, value }) => {
@@ -0,0 +1,253 @@
+/**
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+
+ * http://www.apache.org/licenses/LICENSE-2.0
+
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type Nullable from '../common/Nullable'
+import type ExcludePickPartial from '../common/ExcludePickPartial'
+import type { KLineData } from '../common/Data'
+import { isArray, isNumber, isString, isValid, merge } from '../common/utils/typeChecks'
+
+import type { IndicatorMarker, IndicatorSourceIndicator } from './Indicator'
+import type { Overlay } from './Overlay'
+
+/**
+ * 'crossUp', 'crossDown' and 'cross' compare the source with the value at the data and the previous data,
+ * 'enter' and 'exit' test whether the source moves into or out of the range of the value
+ */
+export type AlertCondition = 'crossUp' | 'crossDown' | 'cross' | 'greater' | 'less' | 'enter' | 'exit'
+
+/**
+ * 'once' disables the alert after it is triggered,
+ * 'oncePerBar' triggers at most once for each data,
+ * 'oncePerBarClose' checks the data when the next data is added
+ */
+export type AlertFrequency = 'once' | 'oncePerBar' | 'oncePerBarClose'
+
+export interface AlertOverlayOperand {
+  overlayId: string
+  /**
+   * The ratio from the value of the second point to the value of the first point, as the levels of the fibonacci line,
+   * the line through the points is used when it is not set
+   */
+  level?: number
+}
+
+/**
+ * The number is a constant, the string is the key of the data or `hl2` , `hlc3` and `ohlc4` ,
+ * the others are the value of the indicator result or the overlay at the data
+ */
+export type AlertOperand = number | string | IndicatorSourceIndicator | AlertOverlayOperand
+
+export type AlertMarker = Partial<Omit<IndicatorMarker, 'timestamp'>>
+
+export interface AlertTrigger {
+  timestamp: number
+  value: number
+}
+
+export interface Alert {
+  /**
+   * Unique id
+   */
+  id: string
+
+  name: string
+
+  /**
+   * The value to be checked
+   */
+  source: AlertOperand
+
+  condition: AlertCondition
+
+  /**
+   * The value compared with the source, 'enter' and 'exit' require the range of two operands
+   */
+  value: AlertOperand | [AlertOperand, AlertOperand]
+
+  frequency: AlertFrequency
+
+  enabled: boolean
+
+  /**
+   * The marker drawn at the triggered data, no marker when it is `null`
+   */
+  marker: Nullable<AlertMarker>
+
+  /**
+   * Triggered records
+   */
+  triggers: AlertTrigger[]
+
+  extendData: unknown
+}
+
+export type AlertCreate = ExcludePickPartial<Omit<Alert, 'triggers'>, 'condition' | 'value'>
+
+export type AlertOverride = ExcludePickPartial<Omit<Alert, 'triggers'>, 'id'>
+
+export interface AlertActionData {
+  alert: Alert
+  kLineData: KLineData
+  value: number
+}
+
+export type AlertOperandValueCallback = (operand: AlertOperand, dataIndex: number) => Nullable<number>
+
+export const ALERT_ID_PREFIX = 'alert_'
+
+const SEGMENT_OVERLAYS = ['segment', 'horizontalSegment']
+const RAY_OVERLAYS = ['rayLine', 'horizontalRayLine']
+
+/**
+ * The value of the overlay at the data index, the overlay with one point is horizontal,
+ * the others use the line through the first two points, limited to the extent of the segments and the rays
+ */
+export function getOverlayAlertValue (
+  overlay: Overlay,
+  dataIndex: number,
+  level: Nullable<number>,
+  timestampToDataIndex: (timestamp: number) => number
+): Nullable<number> {
+  const [point1, point2] = overlay.points
+  if (!isValid(point1) || !isNumber(point1.value)) {
+    return null
+  }
+  if (!isValid(point2) || !isNumber(point2.value)) {
+    return point1.value
+  }
+  if (isNumber(level)) {
+    return point2.value + (point1.value - point2.value) * level
+  }
+  if (!isNumber(point1.timestamp) || !isNumber(point2.timestamp)) {
+    return null
+  }
+  const index1 = timestampToDataIndex(point1.timestamp)
+  const index2 = timestampToDataIndex(point2.timestamp)
+  if (index1 === index2) {
+    return point1.value === point2.value ? point1.value : null
+  }
+  const name = overlay.name
+  if (
+    (SEGMENT_OVERLAYS.includes(name) && (dataIndex < Math.min(index1, index2) || dataIndex > Math.max(index1, index2))) ||
+    (RAY_OVERLAYS.includes(name) && (dataIndex - index1) * (index2 - index1) < 0)
+  ) {
+    return null
+  }
+  return point1.value + (point2.value - point1.value) * (dataIndex - index1) / (index2 - index1)
+}
+
+function isInRange (value: number, from: number, to: number): boolean {
+  return value >= Math.min(from, to) && value <= Math.max(from, to)
+}
+
+export default class AlertImp implements Alert {
+  id: string
+  name: string
+  source: AlertOperand = 'close'
+  condition: AlertCondition = 'crossUp'
+  value: AlertOperand | [AlertOperand, AlertOperand] = 0
+  frequency: AlertFrequency = 'oncePerBar'
+  enabled = true
+  marker: Nullable<AlertMarker> = null
+  triggers: AlertTrigger[] = []
+  extendData: unknown
+
+  override (alert: AlertOverride): void {
+    const { id, name, source, value, marker, ...others } = alert
+    if (!isString(this.id)) {
+      this.id = id
+    }
+    // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- ignore
+    this.name = name ?? this.name ?? this.id
+    // The operands and the marker are replaced instead of merged
+    if (isValid(source)) {
+      this.source = source
+    }
+    if (isValid(value)) {
+      this.value = value
+    }
+    if (marker !== undefined) {
+      this.marker = marker
+    }
+    merge(this, others)
+  }
+
+  /**
+   * Check the condition at the data index, returns the trigger when the alert is triggered
+   */
+  check (dataList: KLineData[], dataIndex: number, getValue: AlertOperandValueCallback): Nullable<AlertTrigger> {
+    const kLineData = dataList[dataIndex] as KLineData | undefined
+    const lastTrigger = this.triggers[this.triggers.length - 1] as AlertTrigger | undefined
+    if (!this.enabled || !isValid(kLineData) || lastTrigger?.timestamp === kLineData.timestamp) {
+      return null
+    }
+    const [fromOperand, toOperand] = isArray<AlertOperand>(this.value) ? this.value : [this.value, this.value]
+    const getValues = (index: number): Nullable<[number, number, number]> => {
+      const source = getValue(this.source, index)
+      const from = getValue(fromOperand, index)
+      const to = getValue(toOperand, index)
+      return source !== null && from !== null && to !== null ? [source, from, to] : null
+    }
+    const current = getValues(dataIndex)
+    if (current === null) {
+      return null
+    }
+    const [value, from, to] = current
+    let triggered = false
+    if (this.condition === 'greater' || this.condition === 'less') {
+      triggered = this.condition === 'greater' ? value > from : value < from
+    } else {
+      const prev = getValues(dataIndex - 1)
+      if (prev === null) {
+        return null
+      }
+      const [prevValue, prevFrom, prevTo] = prev
+      const crossUp = prevValue <= prevFrom && value > from
+      const crossDown = prevValue >= prevFrom && value < from
+      const inRange = isInRange(value, from, to)
+      const prevInRange = isInRange(prevValue, prevFrom, prevTo)
+      switch (this.condition) {
+        case 'crossUp': {
+          triggered = crossUp
+          break
+        }
+        case 'crossDown': {
+          triggered = crossDown
+          break
+        }
+        case 'cross': {
+          triggered = crossUp || crossDown
+          break
+        }
+        case 'enter': {
+          triggered = !prevInRange && inRange
+          break
+        }
+        case 'exit': {
+          triggered = prevInRange && !inRange
+          break
+        }
+      }
+    }
+    if (!triggered) {
+      return null
+    }
+    const trigger = { timestamp: kLineData.timestamp, value }
+    this.triggers.push(trigger)
+    if (this.frequency === 'once') {
+      this.enabled = false
+    }
+    return trigger
+  }
+}
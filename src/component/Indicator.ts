@@ -19,8 +19,9 @@ import type { KLineData, NeighborData } from '../common/Data'
 import type Bounding from '../common/Bounding'
 import type BarSpace from '../common/BarSpace'
 import type Crosshair from '../common/Crosshair'
-import type { IndicatorStyle, IndicatorPolygonStyle, SmoothLineStyle, RectStyle, TextStyle, TooltipFeatureStyle, LineStyle, LineType, TooltipLegend } from '../common/Styles'
-import { isNumber, isValid, merge, isBoolean, isString, clone, isFunction } from '../common/utils/typeChecks'
+import type { Period } from '../common/Period'
+import type { IndicatorStyle, IndicatorLevelStyle, IndicatorMarkerStyle, IndicatorPolygonStyle, SmoothLineStyle, RectStyle, TextStyle, TooltipFeatureStyle, LineStyle, LineType, TooltipLegend } from '../common/Styles'
+import { isNumber, isValid, merge, isBoolean, isString, clone, isFunction, isArray } from '../common/utils/typeChecks'
 
 import type { XAxis } from './XAxis'
 import type { YAxis } from './YAxis'
@@ -35,6 +36,21 @@ import type { Chart } from '../Chart'
 
 export type IndicatorSeries = 'normal' | 'price' | 'volume'
 
+/**
+ * The figure value of another indicator
+ */
+export interface IndicatorSourceIndicator {
+  indicatorId: string
+  key: string
+}
+
+/**
+ * The value the calculation reads as the close,
+ * can be `open` , `high` , `low` , `close` , `hl2` , `hlc3` , `ohlc4` , `volume` , `turnover` , a custom key of the data,
+ * or the figure value of another indicator
+ */
+export type IndicatorSource = string | IndicatorSourceIndicator
+
 export type IndicatorFigureStyle = Partial<Omit<SmoothLineStyle, 'style'>> & Partial<Omit<RectStyle, 'style'>> & Partial<TextStyle> & Partial<{ style: LineType[keyof LineType] }> & Record<string, unknown>
 
 export type IndicatorFigureAttrs = Partial<ArcAttrs> & Partial<LineStyle> & Partial<RectAttrs> & Partial<TextAttrs> & Record<string, unknown>
@@ -62,10 +78,75 @@ export interface IndicatorFigure<D = unknown> {
   title?: string
   type?: string
   baseValue?: number
+  /**
+   * The keys of the two values the area between is filled, only works when `type` is `fill`
+   */
+  between?: [string, string]
+  /**
+   * The number of bars the values are drawn shifted by, positive to the future and negative to the past
+   */
+  shift?: number
   attrs?: IndicatorFigureAttrsCallback<D>
   styles?: IndicatorFigureStylesCallback<D>
 }
 
+/**
+ * Static reference line across the pane
+ */
+export interface IndicatorLevel {
+  value: number
+  /**
+   * The color of the line and the mark, the styles are used when it is not set
+   */
+  color?: string
+  /**
+   * Whether the value is included in the range of the y-axis
+   */
+  inRange?: boolean
+}
+
+/**
+ * Static shaded area between two values across the pane
+ */
+export interface IndicatorBand {
+  from: number
+  to: number
+  color?: string
+  inRange?: boolean
+}
+
+export type IndicatorMarkerPosition = 'above' | 'below'
+
+export type IndicatorMarkerShape = 'arrow' | 'triangle' | 'circle' | 'square'
+
+/**
+ * Discrete signal drawn above or below the candle at the timestamp on the candle pane
+ */
+export interface IndicatorMarker {
+  timestamp: number
+  position: IndicatorMarkerPosition
+  /**
+   * Default is `arrow` , which points to the candle
+   */
+  shape?: IndicatorMarkerShape
+  text?: string
+  color?: string
+}
+
+export interface IndicatorCreateMarkersParams<D, C, E> {
+  dataList: KLineData[]
+  indicator: Indicator<D, C, E>
+  /**
+   * The locale of the chart, the markers are created again when it changes
+   */
+  locale: string
+}
+
+/**
+ * Called after each calculation, the markers are created from the result on the main thread
+ */
+export type IndicatorCreateMarkersCallback<D, C, E> = (params: IndicatorCreateMarkersParams<D, C, E>) => IndicatorMarker[]
+
 export type IndicatorRegenerateFiguresCallback<D, C> = (calcParams: C[]) => Array<IndicatorFigure<D>>
 
 export interface IndicatorTooltipData {
@@ -75,18 +156,18 @@ export interface IndicatorTooltipData {
   legends: TooltipLegend[]
 }
 
-export interface IndicatorCreateTooltipDataSourceParams<D> {
+export interface IndicatorCreateTooltipDataSourceParams<D, C = unknown, E = unknown> {
   chart: Chart
-  indicator: Indicator<D>
+  indicator: Indicator<D, C, E>
   bounding: Bounding
   crosshair: Crosshair
   xAxis: XAxis
   yAxis: YAxis
 }
 
-export type IndicatorCreateTooltipDataSourceCallback<D> = (params: IndicatorCreateTooltipDataSourceParams<D>) => IndicatorTooltipData
+export type IndicatorCreateTooltipDataSourceCallback<D, C = unknown, E = unknown> = (params: IndicatorCreateTooltipDataSourceParams<D, C, E>) => IndicatorTooltipData
 
-export type IndicatorEventTarget = 'feature'
+export type IndicatorEventTarget = 'feature' | 'marker'
 
 export interface IndicatorEvent<D, C, E> {
   target: IndicatorEventTarget
@@ -108,7 +189,43 @@ export interface IndicatorDrawParams<D, C, E> {
 
 export type IndicatorDrawCallback<D, C, E> = (params: IndicatorDrawParams<D, C, E>) => boolean
 
-export type IndicatorCalcCallback<D, C, E> = (dataList: KLineData[], indicator: Indicator<D, C, E>) => Promise<D[]> | D[]
+export interface IndicatorCalcContext {
+  /**
+   * Formatter in the chart timezone, used to find the days, weeks and months of the data
+   */
+  dateTimeFormat: Intl.DateTimeFormat
+}
+
+export type IndicatorCalcCallback<D, C, E> = (dataList: KLineData[], indicator: Indicator<D, C, E>, context: IndicatorCalcContext) => Promise<D[]> | D[]
+
+export interface IndicatorCalcRange {
+  from: number
+  to: number
+}
+
+export interface IndicatorCalcParams {
+  type: LoadDataType
+  range: IndicatorCalcRange
+}
+
+export interface IndicatorIncrementalCalcParams<D> extends IndicatorCalcParams {
+  /**
+   * Previous calculation result, aligned with the current data list
+   */
+  result: D[]
+}
+
+/**
+ * Returns the results starting from `range.from`,
+ * more than `range.to - range.from` results can be returned when the following data is also affected,
+ * returning `null` will fall back to the full calculation.
+ */
+export type IndicatorIncrementalCalcCallback<D, C, E> = (
+  dataList: KLineData[],
+  indicator: Indicator<D, C, E>,
+  params: IndicatorIncrementalCalcParams<D>,
+  context: IndicatorCalcContext
+) => Promise<Nullable<D[]>> | Nullable<D[]>
 
 export type IndicatorShouldUpdateCallback<D, C, E> = (prev: Indicator<D, C, E>, current: Indicator<D, C, E>) => (boolean | { calc: boolean, draw: boolean })
 
@@ -138,6 +255,11 @@ export interface Indicator<D = unknown, C = unknown, E = unknown> {
    */
   name: string
 
+  /**
+   * The id of the y-axis in the pane the indicator is bound to, `null` means the main y-axis
+   */
+  yAxisId: Nullable<string>
+
   /**
    * Short name, for display
    */
@@ -183,11 +305,32 @@ export interface Indicator<D = unknown, C = unknown, E = unknown> {
    */
   series: IndicatorSeries
 
+  /**
+   * Calculation source
+   */
+  source: IndicatorSource
+
+  /**
+   * The period the data is resampled to before the calculation,
+   * the result of each period is projected onto all the data in it
+   */
+  timeframe: Nullable<Period>
+
   /**
    * Figure configuration information
    */
   figures: Array<IndicatorFigure<D>>
 
+  /**
+   * Reference levels
+   */
+  levels: IndicatorLevel[]
+
+  /**
+   * Reference bands
+   */
+  bands: IndicatorBand[]
+
   /**
    * Specified minimum value
    */
@@ -213,6 +356,11 @@ export interface Indicator<D = unknown, C = unknown, E = unknown> {
    */
   calc: IndicatorCalcCallback<D, C, E>
 
+  /**
+   * Indicator incremental calculation
+   */
+  incrementalCalc: Nullable<IndicatorIncrementalCalcCallback<D, C, E>>
+
   /**
    * Regenerate figure configuration
    */
@@ -221,13 +369,18 @@ export interface Indicator<D = unknown, C = unknown, E = unknown> {
   /**
    * Create custom tooltip text
    */
-  createTooltipDataSource: Nullable<IndicatorCreateTooltipDataSourceCallback<D>>
+  createTooltipDataSource: Nullable<IndicatorCreateTooltipDataSourceCallback<D, C, E>>
 
   /**
    * Custom draw
    */
   draw: Nullable<IndicatorDrawCallback<D, C, E>>
 
+  /**
+   * Create signal markers
+   */
+  createMarkers: Nullable<IndicatorCreateMarkersCallback<D, C, E>>
+
   /**
    * Data state change
    */
@@ -242,18 +395,78 @@ export interface Indicator<D = unknown, C = unknown, E = unknown> {
    * Calculation result
    */
   result: D[]
+
+  /**
+   * Signal markers
+   */
+  markers: IndicatorMarker[]
 }
 
-export type IndicatorTemplate<D = unknown, C = unknown, E = unknown> = ExcludePickPartial<Omit<Indicator<D, C, E>, 'result' | 'paneId'>, 'name' | 'calc'>
+export type IndicatorTemplate<D = unknown, C = unknown, E = unknown> = ExcludePickPartial<Omit<Indicator<D, C, E>, 'result' | 'markers' | 'paneId'>, 'name' | 'calc'>
 
-export type IndicatorCreate<D = unknown, C = unknown, E = unknown> = ExcludePickPartial<Omit<Indicator<D, C, E>, 'result'>, 'name'>
+export type IndicatorCreate<D = unknown, C = unknown, E = unknown> = ExcludePickPartial<Omit<Indicator<D, C, E>, 'result' | 'markers'>, 'name'>
 
-export type IndicatorOverride<D = unknown, C = unknown, E = unknown> = Partial<Omit<Indicator<D, C, E>, 'result'>>
+export type IndicatorOverride<D = unknown, C = unknown, E = unknown> = Partial<Omit<Indicator<D, C, E>, 'result' | 'markers'>>
 
 export type IndicatorFilter = Partial<Pick<Indicator, 'id' | 'paneId' | 'name'>>
 
 export type IndicatorConstructor<D = unknown, C = unknown, E = unknown> = new () => IndicatorImp<D, C, E>
 
+/**
+ * Get the source value of the data, `hl2` , `hlc3` and `ohlc4` are the averages of the prices
+ */
+export function getIndicatorSourceValue (kLineData: KLineData, source: string): Nullable<number> {
+  const { open, high, low, close } = kLineData
+  switch (source) {
+    case 'hl2': {
+      return (high + low) / 2
+    }
+    case 'hlc3': {
+      return (high + low + close) / 3
+    }
+    case 'ohlc4': {
+      return (open + high + low + close) / 4
+    }
+    default: {
+      const value = kLineData[source]
+      return isNumber(value) ? value : null
+    }
+  }
+}
+
+/**
+ * Update the data list whose close is the value of the source from `from` ,
+ * the missing values are filled with the previous value,
+ * returns `false` when the leading data have no value, they can not be aligned with the data list
+ */
+export function updateIndicatorSourceDataList (sourceDataList: KLineData[], dataList: KLineData[], source: string, from: number): boolean {
+  sourceDataList.length = Math.min(from, sourceDataList.length)
+  let close = sourceDataList.length > 0 ? sourceDataList[sourceDataList.length - 1].close : null
+  for (let i = sourceDataList.length; i < dataList.length; i++) {
+    const kLineData = dataList[i]
+    close = getIndicatorSourceValue(kLineData, source) ?? close
+    if (close === null) {
+      return false
+    }
+    sourceDataList.push({ ...kLineData, close })
+  }
+  return true
+}
+
+export function getLevelStyles (indicator: Indicator, defaultStyles: IndicatorStyle): IndicatorLevelStyle {
+  const styles = clone(defaultStyles.levels)
+  // The styles of the indicator may be partial
+  merge(styles, indicator.styles?.levels)
+  return styles
+}
+
+export function getMarkerStyles (indicator: Indicator, defaultStyles: IndicatorStyle): IndicatorMarkerStyle {
+  const styles = clone(defaultStyles.markers)
+  // The styles of the indicator may be partial
+  merge(styles, indicator.styles?.markers)
+  return styles
+}
+
 export type EachFigureCallback<D> = (figure: IndicatorFigure<D>, figureStyles: IndicatorFigureStyle, index: number) => void
 
 export function eachFigures<D = unknown> (
@@ -275,14 +488,19 @@ export function eachFigures<D = unknown> (
   const lineStyles = formatValue(styles, 'lines', defaultStyles.lines) as SmoothLineStyle[]
   const lineStyleCount = lineStyles.length
 
+  const fillStyles = formatValue(styles, 'fills', defaultStyles.fills) as IndicatorPolygonStyle[]
+  const fillStyleCount = fillStyles.length
+
   let circleCount = 0
   let barCount = 0
   let lineCount = 0
+  let fillCount = 0
 
   // eslint-disable-next-line @typescript-eslint/init-declarations  -- ignore
   let defaultFigureStyles
   let figureIndex = 0
   figures.forEach(figure => {
+    const index = dataIndex - (figure.shift ?? 0)
     switch (figure.type) {
       case 'circle': {
         figureIndex = circleCount
@@ -304,14 +522,33 @@ export function eachFigures<D = unknown> (
         lineCount++
         break
       }
+      case 'fill': {
+        figureIndex = fillCount
+        const styles = fillStyles[fillCount % fillStyleCount]
+        let color = styles.noChangeColor
+        const data = result[index] as Nullable<Record<string, unknown>> | undefined
+        if (isValid(data) && isArray(figure.between)) {
+          const [value, compareValue] = figure.between.map(key => data[key])
+          if (isNumber(value) && isNumber(compareValue)) {
+            if (value > compareValue) {
+              color = styles.upColor
+            } else if (value < compareValue) {
+              color = styles.downColor
+            }
+          }
+        }
+        defaultFigureStyles = { ...styles, color, borderColor: color }
+        fillCount++
+        break
+      }
       default: { break }
     }
     if (isValid(figure.type)) {
       const ss = figure.styles?.({
         data: {
-          prev: result[dataIndex - 1],
-          current: result[dataIndex],
-          next: result[dataIndex + 1]
+          prev: result[index - 1],
+          current: result[index],
+          next: result[index + 1]
         },
         indicator,
         defaultStyles
@@ -326,6 +563,7 @@ export default class IndicatorImp<D = unknown, C = unknown, E = unknown> impleme
   id: string
   paneId: string
   name: string
+  yAxisId: Nullable<string> = null
   shortName: string
   precision = 4
   calcParams: C[] = []
@@ -335,17 +573,27 @@ export default class IndicatorImp<D = unknown, C = unknown, E = unknown> impleme
   zLevel = 0
   extendData: E
   series: IndicatorSeries = 'normal'
+  source: IndicatorSource = 'close'
+  timeframe: Nullable<Period> = null
   figures: Array<IndicatorFigure<D>> = []
+  levels: IndicatorLevel[] = []
+  bands: IndicatorBand[] = []
   minValue: Nullable<number> = null
   maxValue: Nullable<number> = null
   styles: Nullable<Partial<IndicatorStyle>> = null
   shouldUpdate: IndicatorShouldUpdateCallback<D, C, E> = (prev, current) => {
     const calc = JSON.stringify(prev.calcParams) !== JSON.stringify(current.calcParams) ||
+      JSON.stringify(prev.source) !== JSON.stringify(current.source) ||
+      JSON.stringify(prev.timeframe) !== JSON.stringify(current.timeframe) ||
       prev.figures !== current.figures ||
-      prev.calc !== current.calc
+      prev.calc !== current.calc ||
+      prev.createMarkers !== current.createMarkers
     const draw = calc ||
       prev.shortName !== current.shortName ||
+      prev.yAxisId !== current.yAxisId ||
       prev.series !== current.series ||
+      JSON.stringify(prev.levels) !== JSON.stringify(current.levels) ||
+      JSON.stringify(prev.bands) !== JSON.stringify(current.bands) ||
       prev.minValue !== current.minValue ||
       prev.maxValue !== current.maxValue ||
       prev.precision !== current.precision ||
@@ -362,15 +610,18 @@ export default class IndicatorImp<D = unknown, C = unknown, E = unknown> impleme
   }
 
   calc: IndicatorCalcCallback<D, C, E> = () => []
+  incrementalCalc: Nullable<IndicatorIncrementalCalcCallback<D, C, E>> = null
   regenerateFigures: Nullable<IndicatorRegenerateFiguresCallback<D, C>> = null
-  createTooltipDataSource: Nullable<IndicatorCreateTooltipDataSourceCallback<D>> = null
+  createTooltipDataSource: Nullable<IndicatorCreateTooltipDataSourceCallback<D, C, E>> = null
   draw: Nullable<IndicatorDrawCallback<D, C, E>> = null
+  createMarkers: Nullable<IndicatorCreateMarkersCallback<D, C, E>> = null
 
   onClick: Nullable<IndicatorEventCallback<D, C, E>> = null
 
   onDataStateChange: Nullable<IndicatorOnDataStateChangeCallback<D>> = null
 
   result: D[] = []
+  markers: IndicatorMarker[] = []
 
   private _prevIndicator: Indicator<D, C, E>
   private _lockSeriesPrecision = false
@@ -381,8 +632,8 @@ export default class IndicatorImp<D = unknown, C = unknown, E = unknown> impleme
   }
 
   override (indicator: Partial<Indicator<D, C, E>>): void {
-    const { result, ...currentOthers } = this
-    this._prevIndicator = { ...clone(currentOthers), result }
+    const { result, markers, ...currentOthers } = this
+    this._prevIndicator = { ...clone(currentOthers), result, markers }
     const {
       id,
       name,
@@ -391,6 +642,11 @@ export default class IndicatorImp<D = unknown, C = unknown, E = unknown> impleme
       styles,
       figures,
       calcParams,
+      levels,
+      bands,
+      timeframe,
+      calc,
+      incrementalCalc,
       ...others
     } = indicator
     if (!isString(this.id) && isString(id)) {
@@ -411,6 +667,24 @@ export default class IndicatorImp<D = unknown, C = unknown, E = unknown> impleme
       merge(this.styles, styles)
     }
     merge(this, others)
+    // The arrays are replaced rather than merged
+    if (isArray<IndicatorLevel>(levels)) {
+      this.levels = levels
+    }
+    if (isArray<IndicatorBand>(bands)) {
+      this.bands = bands
+    }
+    // `null` removes the timeframe
+    if (timeframe !== undefined) {
+      this.timeframe = isValid(timeframe) ? { ...timeframe } : null
+    }
+    if (isFunction(calc)) {
+      this.calc = calc
+      // The incremental calculation only matches the calculation it is declared with
+      this.incrementalCalc = incrementalCalc ?? null
+    } else if (incrementalCalc !== undefined) {
+      this.incrementalCalc = incrementalCalc
+    }
     if (isValid(calcParams)) {
       this.calcParams = calcParams
       if (isFunction(this.regenerateFigures)) {
@@ -435,16 +709,49 @@ export default class IndicatorImp<D = unknown, C = unknown, E = unknown> impleme
     return { ...result, sort }
   }
 
-  async calcImp (dataList: KLineData[]): Promise<boolean> {
+  async calcImp (dataList: KLineData[], params: Nullable<IndicatorCalcParams>, context: IndicatorCalcContext): Promise<boolean> {
     try {
-      const result = await this.calc(dataList, this)
-      this.result = result
+      let result: Nullable<D[]> = null
+      if (isValid(params) && isFunction(this.incrementalCalc)) {
+        result = await this._incrementalCalcImp(dataList, params, context)
+      }
+      this.result = result ?? await this.calc(dataList, this, context)
       return true
     } catch (e) {
       return false
     }
   }
 
+  calcMarkersImp (dataList: KLineData[], locale: string): void {
+    try {
+      this.markers = this.createMarkers?.({ dataList, indicator: this, locale }) ?? []
+    } catch (e) {
+      this.markers = []
+    }
+  }
+
+  private async _incrementalCalcImp (dataList: KLineData[], params: IndicatorCalcParams, context: IndicatorCalcContext): Promise<Nullable<D[]>> {
+    const { type, range } = params
+    let prevResult = this.result
+    if (type === 'forward') {
+      if (prevResult.length + range.to - range.from !== dataList.length) {
+        return null
+      }
+      prevResult = new Array<D>(range.to - range.from).concat(prevResult)
+    } else if (prevResult.length < range.from) {
+      return null
+    }
+    const result = await this.incrementalCalc!(dataList, this, { type, range, result: prevResult }, context)
+    if (!isArray<D>(result)) {
+      return null
+    }
+    result.forEach((data, index) => {
+      prevResult[range.from + index] = data
+    })
+    prevResult.length = dataList.length
+    return prevResult
+  }
+
   static extend<D = unknown> (template: IndicatorTemplate<D>): IndicatorConstructor<D> {
     class Custom extends IndicatorImp<D> {
       constructor () {
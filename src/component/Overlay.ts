@@ -29,6 +29,12 @@ import type { Chart } from '../Chart'
 
 export type OverlayMode = 'normal' | 'weak_magnet' | 'strong_magnet'
 
+/**
+ * 'click' places a point with each click until the total step,
+ * 'drag' captures the points continuously while pressing and moving, the number of points is not limited
+ */
+export type OverlayDrawMode = 'click' | 'drag'
+
 export interface OverlayPerformEventParams {
   currentStep: number
   mode: OverlayMode
@@ -115,10 +121,16 @@ export interface Overlay<E = unknown> extends OverlayEventCollection<E> {
   name: string
 
   /**
-   * Total number of steps required to complete mouse operation
+   * Total number of steps required to complete mouse operation,
+   * `0` means the number of points is not limited and the drawing is completed by double click
    */
   totalStep: number
 
+  /**
+   * How the points are placed when drawing
+   */
+  drawMode: OverlayDrawMode
+
   /**
    * Current step
    */
@@ -207,8 +219,8 @@ export interface Overlay<E = unknown> extends OverlayEventCollection<E> {
 
 export type OverlayTemplate<E = unknown> = ExcludePickPartial<Omit<Overlay<E>, 'id' | 'groupId' | 'paneId' | 'points' | 'currentStep'>, 'name'>
 
-export type OverlayCreate<E = unknown> = ExcludePickPartial<Omit<Overlay<E>, 'currentStep' | 'totalStep' | 'createPointFigures' | 'createXAxisFigures' | 'createYAxisFigures' | 'performEventPressedMove' | 'performEventMoveForDrawing'>, 'name'>
-export type OverlayOverride<E = unknown> = Partial<Omit<Overlay<E>, 'currentStep' | 'totalStep' | 'createPointFigures' | 'createXAxisFigures' | 'createYAxisFigures' | 'performEventPressedMove' | 'performEventMoveForDrawing'>>
+export type OverlayCreate<E = unknown> = ExcludePickPartial<Omit<Overlay<E>, 'currentStep' | 'totalStep' | 'drawMode' | 'createPointFigures' | 'createXAxisFigures' | 'createYAxisFigures' | 'performEventPressedMove' | 'performEventMoveForDrawing'>, 'name'>
+export type OverlayOverride<E = unknown> = Partial<Omit<Overlay<E>, 'currentStep' | 'totalStep' | 'drawMode' | 'createPointFigures' | 'createXAxisFigures' | 'createYAxisFigures' | 'performEventPressedMove' | 'performEventMoveForDrawing'>>
 
 export type OverlayFilter<E = unknown> = Partial<Pick<Overlay<E>, 'id' | 'groupId' | 'name' | 'paneId'>>
 
@@ -228,6 +240,7 @@ export default class OverlayImp<E = unknown> implements Overlay<E> {
   paneId: string
   name: string
   totalStep = 1
+  drawMode: OverlayDrawMode = 'click'
   currentStep = OVERLAY_DRAW_STEP_START
   lock = false
   visible = true
@@ -302,7 +315,10 @@ export default class OverlayImp<E = unknown> implements Overlay<E> {
     if (isArray(points) && points.length > 0) {
       let repeatTotalStep = 0
       this.points = [...points]
-      if (points.length >= this.totalStep - 1) {
+      if (this._isPointUnlimited()) {
+        this.currentStep = OVERLAY_DRAW_STEP_FINISHED
+        repeatTotalStep = points.length
+      } else if (points.length >= this.totalStep - 1) {
         this.currentStep = OVERLAY_DRAW_STEP_FINISHED
         repeatTotalStep = this.totalStep - 1
       } else {
@@ -350,7 +366,7 @@ export default class OverlayImp<E = unknown> implements Overlay<E> {
   }
 
   nextStep (): void {
-    if (this.currentStep === this.totalStep - 1) {
+    if (!this._isPointUnlimited() && this.currentStep === this.totalStep - 1) {
       this.currentStep = OVERLAY_DRAW_STEP_FINISHED
     } else {
       this.currentStep++
@@ -358,9 +374,17 @@ export default class OverlayImp<E = unknown> implements Overlay<E> {
   }
 
   forceComplete (): void {
+    // The point following the mouse is not placed when the unlimited drawing is completed
+    if (this._isPointUnlimited() && this.isDrawing()) {
+      this.points = this.points.slice(0, this.currentStep - 1)
+    }
     this.currentStep = OVERLAY_DRAW_STEP_FINISHED
   }
 
+  private _isPointUnlimited (): boolean {
+    return this.totalStep === 0 || this.drawMode === 'drag'
+  }
+
   isDrawing (): boolean {
     return this.currentStep !== OVERLAY_DRAW_STEP_FINISHED
   }
@@ -422,7 +446,7 @@ export default class OverlayImp<E = unknown> implements Overlay<E> {
       }
       this.points = this._prevPressedPoints.map(p => {
         if (isNumber(p.timestamp)) {
-          p.dataIndex = chartStore.timestampToDataIndex(p.timestamp)
+          p.dataIndex = this.drawMode === 'drag' ? chartStore.timestampToFloatDataIndex(p.timestamp) : chartStore.timestampToDataIndex(p.timestamp)
         }
         const newPoint = { ...p }
         if (isNumber(difDataIndex) && isNumber(p.dataIndex)) {
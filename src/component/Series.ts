@@ -0,0 +1,160 @@
+/**
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+
+ * http://www.apache.org/licenses/LICENSE-2.0
+
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type Nullable from '../common/Nullable'
+import type ExcludePickPartial from '../common/ExcludePickPartial'
+import type { KLineData } from '../common/Data'
+import { isArray, isString, isValid, merge } from '../common/utils/typeChecks'
+
+export type SeriesType = 'line' | 'area' | 'candle'
+
+/**
+ * 'main' draws the values on the candle y-axis directly,
+ * 'normalize' scales the values so that the first visible data matches the main series
+ */
+export type SeriesYAxis = 'main' | 'normalize'
+
+export interface SeriesStyles {
+  color: string
+  size: number
+  areaColor: string
+  upColor: string
+  downColor: string
+  noChangeColor: string
+}
+
+export interface Series {
+  /**
+   * Unique id
+   */
+  id: string
+
+  /**
+   * Name shown in the tooltip
+   */
+  name: string
+
+  type: SeriesType
+
+  yAxis: SeriesYAxis
+
+  /**
+   * The value key of the line and area
+   */
+  value: string
+
+  /**
+   * Data list, it is aligned to the main data list by timestamp
+   */
+  dataList: KLineData[]
+
+  visible: boolean
+
+  styles: SeriesStyles
+}
+
+export type SeriesCreate = ExcludePickPartial<Omit<Series, 'styles'>, 'id' | 'dataList'> & { styles?: Partial<SeriesStyles> }
+
+export type SeriesOverride = ExcludePickPartial<Omit<Series, 'styles'>, 'id'> & { styles?: Partial<SeriesStyles> }
+
+export default class SeriesImp implements Series {
+  id: string
+  name: string
+  type: SeriesType = 'line'
+  yAxis: SeriesYAxis = 'main'
+  value = 'close'
+  dataList: KLineData[] = []
+  visible = true
+  styles: SeriesStyles
+
+  private _alignedDataList: Array<Nullable<KLineData>> = []
+  private _alignedSource: Nullable<KLineData[]> = null
+  private _alignDirty = true
+
+  constructor (styles: SeriesStyles) {
+    this.styles = styles
+  }
+
+  override (series: SeriesOverride): void {
+    const { id, name, dataList, styles, ...others } = series
+    if (!isString(this.id)) {
+      this.id = id
+    }
+    // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- ignore
+    this.name = name ?? this.name ?? this.id
+    merge(this.styles, styles)
+    merge(this, others)
+    if (isArray<KLineData>(dataList)) {
+      this.dataList = dataList
+      this._alignDirty = true
+    }
+  }
+
+  /**
+   * Add the data to the end or replace the last data with the same timestamp
+   */
+  updateData (data: KLineData): boolean {
+    const lastData = this.dataList[this.dataList.length - 1] as KLineData | undefined
+    const lastTimestamp = lastData?.timestamp ?? 0
+    if (data.timestamp > lastTimestamp) {
+      this.dataList.push(data)
+    } else if (data.timestamp === lastTimestamp) {
+      this.dataList[this.dataList.length - 1] = data
+    } else {
+      return false
+    }
+    this._alignDirty = true
+    return true
+  }
+
+  /**
+   * Get the data aligned to the main data list, each main data matches the latest data not after it
+   */
+  getAlignedDataList (source: KLineData[]): Array<Nullable<KLineData>> {
+    if (this._alignDirty || this._alignedSource !== source || this._alignedDataList.length !== source.length) {
+      const alignedDataList: Array<Nullable<KLineData>> = []
+      const dataList = this.dataList
+      let index = 0
+      let current: Nullable<KLineData> = null
+      source.forEach(({ timestamp }) => {
+        while (index < dataList.length && dataList[index].timestamp <= timestamp) {
+          current = dataList[index]
+          index++
+        }
+        alignedDataList.push(current)
+      })
+      this._alignedDataList = alignedDataList
+      this._alignedSource = source
+      this._alignDirty = false
+    }
+    return this._alignedDataList
+  }
+
+  /**
+   * Get the ratio to convert the value to the main series,
+   * the first valid data in the range is matched to the main series when normalizing
+   */
+  getValueRatio (source: KLineData[], from: number, to: number, normalize: boolean): number {
+    if (normalize || this.yAxis === 'normalize') {
+      const alignedDataList = this.getAlignedDataList(source)
+      for (let i = from; i < to; i++) {
+        const data = alignedDataList[i]
+        if (isValid(data) && data.close !== 0) {
+          return source[i].close / data.close
+        }
+      }
+    }
+    return 1
+  }
+}
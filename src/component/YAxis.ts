@@ -12,6 +12,7 @@
  * limitations under the License.
  */
 
+import type Nullable from '../common/Nullable'
 import type Bounding from '../common/Bounding'
 import { isFunction, isNumber, isString, isValid, merge } from '../common/utils/typeChecks'
 import { index10, getPrecision, nice, round } from '../common/utils/number'
@@ -42,6 +43,10 @@ export interface YAxis extends Axis, Required<YAxisTemplate> {
 export type YAxisConstructor = new (parent: DrawPane) => YAxis
 
 export default abstract class YAxisImp extends AxisImp implements YAxis {
+  /**
+   * The id of the additional y-axis in the pane, `null` means the main y-axis
+   */
+  id: Nullable<string> = null
   reverse = false
   inside = false
   position: AxisPosition = 'right'
@@ -87,7 +92,7 @@ export default abstract class YAxisImp extends AxisImp implements YAxis {
     let specifyMin = Number.MAX_SAFE_INTEGER
     let specifyMax = Number.MIN_SAFE_INTEGER
     let indicatorPrecision = Number.MAX_SAFE_INTEGER
-    const indicators = chartStore.getIndicatorsByPaneId(paneId)
+    const indicators = parent.getIndicatorsByAxis(this)
     indicators.forEach(indicator => {
       shouldOhlc ||= indicator.shouldOhlc
       indicatorPrecision = Math.min(indicatorPrecision, indicator.precision)
@@ -97,6 +102,21 @@ export default abstract class YAxisImp extends AxisImp implements YAxis {
       if (isNumber(indicator.maxValue)) {
         specifyMax = Math.max(specifyMax, indicator.maxValue)
       }
+      const rangeValues: number[] = []
+      indicator.levels.forEach(({ value, inRange }) => {
+        if (inRange === true) {
+          rangeValues.push(value)
+        }
+      })
+      indicator.bands.forEach(({ from, to, inRange }) => {
+        if (inRange === true) {
+          rangeValues.push(from, to)
+        }
+      })
+      rangeValues.forEach(value => {
+        specifyMin = Math.min(specifyMin, value)
+        specifyMax = Math.max(specifyMax, value)
+      })
     })
 
     let precision = 4
@@ -118,6 +138,10 @@ export default abstract class YAxisImp extends AxisImp implements YAxis {
     const isArea = candleStyles.type === 'area'
     const areaValueKey = candleStyles.area.value
     const shouldCompareHighLow = (inCandle && !isArea) || (!inCandle && shouldOhlc)
+    const dataList = chartStore.getDataList()
+    const visibleRange = chartStore.getVisibleRange()
+    const seriesList = inCandle ? chartStore.getSeries().filter(series => series.visible) : []
+    const seriesRatios = seriesList.map(series => series.getValueRatio(dataList, visibleRange.from, visibleRange.to, this.name === 'percentage'))
     visibleRangeDataList.forEach((visibleData) => {
       const dataIndex = visibleData.dataIndex
       const data = visibleData.data.current
@@ -134,9 +158,21 @@ export default abstract class YAxisImp extends AxisImp implements YAxis {
           }
         }
       }
+      seriesList.forEach((series, index) => {
+        const seriesData = series.getAlignedDataList(dataList)[dataIndex]
+        if (isValid(seriesData)) {
+          const values = series.type === 'candle' ? [seriesData.low, seriesData.high] : [seriesData[series.value]]
+          values.forEach(value => {
+            if (isNumber(value)) {
+              min = Math.min(min, value * seriesRatios[index])
+              max = Math.max(max, value * seriesRatios[index])
+            }
+          })
+        }
+      })
       indicators.forEach(({ result, figures }) => {
-        const data = result[dataIndex] ?? {}
         figures.forEach(figure => {
+          const data = result[dataIndex - (figure.shift ?? 0)] ?? {}
           // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment -- ignore
           const value = data[figure.key]
           if (isNumber(value)) {
@@ -222,7 +258,8 @@ export default abstract class YAxisImp extends AxisImp implements YAxis {
    * @return {boolean}
    */
   isInCandle (): boolean {
-    return this.getParent().getId() === PaneIdConstants.CANDLE
+    const parent = this.getParent()
+    return parent.getId() === PaneIdConstants.CANDLE && parent.getAxisComponent() === this
   }
 
   /**
@@ -261,10 +298,10 @@ export default abstract class YAxisImp extends AxisImp implements YAxis {
     }
 
     const pane = this.getParent()
-    const height = pane.getYAxisWidget()?.getBounding().height ?? 0
+    const height = pane.getYAxisWidget(this.id)?.getBounding().height ?? 0
     const chartStore = pane.getChart().getChartStore()
     const optimalTicks: AxisTick[] = []
-    const indicators = chartStore.getIndicatorsByPaneId(pane.getId())
+    const indicators = pane.getIndicatorsByAxis(this)
     const styles = chartStore.getStyles()
     let precision = 0
     let shouldFormatBigNumber = false
@@ -345,7 +382,7 @@ export default abstract class YAxisImp extends AxisImp implements YAxis {
       crosshairStyles.horizontal.show &&
       crosshairStyles.horizontal.text.show
     ) {
-      const indicators = chartStore.getIndicatorsByPaneId(pane.getId())
+      const indicators = pane.getIndicatorsByAxis(this)
       let indicatorPrecision = 0
       let shouldFormatBigNumber = false
       indicators.forEach(indicator => {
@@ -386,7 +423,7 @@ export default abstract class YAxisImp extends AxisImp implements YAxis {
   }
 
   protected override getBounding (): Bounding {
-    return this.getParent().getYAxisWidget()!.getBounding()
+    return this.getParent().getYAxisWidget(this.id)!.getBounding()
   }
 
   convertFromPixel (pixel: number): number {
@@ -401,14 +438,14 @@ export default abstract class YAxisImp extends AxisImp implements YAxis {
   convertToPixel (value: number): number {
     const range = this.getRange()
     const realValue = this.valueToRealValue(value, { range })
-    const height = this.getParent().getYAxisWidget()?.getBounding().height ?? 0
+    const height = this.getParent().getYAxisWidget(this.id)?.getBounding().height ?? 0
     const { realFrom, realRange } = range
     const rate = (realValue - realFrom) / realRange
     return this.reverse ? Math.round(rate * height) : Math.round((1 - rate) * height)
   }
 
   convertToNicePixel (value: number): number {
-    const height = this.getParent().getYAxisWidget()?.getBounding().height ?? 0
+    const height = this.getParent().getYAxisWidget(this.id)?.getBounding().height ?? 0
     const pixel = this.convertToPixel(value)
     return Math.round(Math.max(height * 0.05, Math.min(pixel, height * 0.98)))
   }
@@ -0,0 +1,52 @@
+/**
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+
+ * http://www.apache.org/licenses/LICENSE-2.0
+
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { KLineData } from '../../common/Data'
+import type { DataTransformParams } from '../../common/DataTransform'
+import { isNumber } from '../../common/utils/typeChecks'
+
+/**
+ * Average true range of the last `period` data
+ */
+function calcAverageTrueRange (dataList: KLineData[], period: number): number {
+  const count = Math.min(period, dataList.length)
+  if (count === 0) {
+    return 0
+  }
+  let trSum = 0
+  for (let i = dataList.length - count; i < dataList.length; i++) {
+    const { high, low } = dataList[i]
+    const prevClose = dataList[i - 1]?.close ?? dataList[i].close
+    trSum += Math.max(high - low, Math.abs(high - prevClose), Math.abs(low - prevClose))
+  }
+  return trSum / count
+}
+
+/**
+ * Get the box size by the calc params `[type, value]`,
+ * type 'fixed' uses the value as the box size directly,
+ * type 'atr' uses the average true range with the value as the period,
+ * it is calculated only when the data is initialized to keep the data stable while updating
+ */
+export function getBoxSize (dataList: KLineData[], params: DataTransformParams): number {
+  const { calcParams, state } = params
+  const [type, value] = calcParams as [string, number]
+  if (type !== 'atr') {
+    return value
+  }
+  if (!isNumber(state.boxSize) || state.boxSize <= 0) {
+    state.boxSize = calcAverageTrueRange(dataList, value)
+  }
+  return state.boxSize as number
+}
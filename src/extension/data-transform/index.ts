@@ -0,0 +1,43 @@
+/**
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+
+ * http://www.apache.org/licenses/LICENSE-2.0
+
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type Nullable from '../../common/Nullable'
+import type { DataTransformTemplate } from '../../common/DataTransform'
+
+import renko from './renko'
+import kagi from './kagi'
+import lineBreak from './lineBreak'
+import pointAndFigure from './pointAndFigure'
+
+const dataTransforms: Record<string, DataTransformTemplate> = {}
+
+const extensions = [renko, kagi, lineBreak, pointAndFigure]
+
+extensions.forEach((transform: DataTransformTemplate) => {
+  dataTransforms[transform.name] = transform
+})
+
+function registerDataTransform (transform: DataTransformTemplate): void {
+  dataTransforms[transform.name] = transform
+}
+
+function getDataTransform (name: string): Nullable<DataTransformTemplate> {
+  return dataTransforms[name] ?? null
+}
+
+function getSupportedDataTransforms (): string[] {
+  return Object.keys(dataTransforms)
+}
+
+export { registerDataTransform, getDataTransform, getSupportedDataTransforms }
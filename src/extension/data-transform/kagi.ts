@@ -0,0 +1,75 @@
+/**
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+
+ * http://www.apache.org/licenses/LICENSE-2.0
+
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { KLineData } from '../../common/Data'
+import type { DataTransformTemplate } from '../../common/DataTransform'
+
+import { getBoxSize } from './boxSize'
+import { scanDataList } from './scan'
+
+/**
+ * Each line of kagi is converted to a data, open is the start price and close is the end price,
+ * the last line is still forming
+ */
+const kagi: DataTransformTemplate = {
+  name: 'kagi',
+  calcParams: ['atr', 14],
+  transform: (dataList, params) => {
+    const reversal = getBoxSize(dataList, params)
+    return scanDataList<{ line: KLineData, direction: number }>(
+      dataList,
+      params,
+      () => {
+        if (dataList.length === 0 || reversal <= 0) {
+          return null
+        }
+        const first = dataList[0]
+        return {
+          line: { timestamp: first.timestamp, open: first.close, high: first.close, low: first.close, close: first.close, volume: 0 },
+          direction: 0
+        }
+      },
+      (scan, { timestamp, close, volume }, lines) => {
+        const { line, direction } = scan
+        if (
+          direction === 0 ||
+          (direction > 0 && close > line.close) ||
+          (direction < 0 && close < line.close)
+        ) {
+          if (direction === 0 && Math.abs(close - line.open) >= reversal) {
+            scan.direction = close > line.open ? 1 : -1
+          }
+          if (scan.direction !== 0) {
+            line.close = close
+          }
+        } else if (Math.abs(close - line.close) >= reversal) {
+          lines.push(line)
+          scan.line = { timestamp, open: line.close, high: line.close, low: line.close, close, volume: 0 }
+          scan.direction = -direction
+        }
+        const current = scan.line
+        current.high = Math.max(current.open, current.close)
+        current.low = Math.min(current.open, current.close)
+        current.volume = (current.volume ?? 0) + (volume ?? 0)
+      },
+      ({ line, direction }, lines) => {
+        if (direction !== 0) {
+          lines.push(line)
+        }
+      }
+    )
+  }
+}
+
+export default kagi
@@ -0,0 +1,67 @@
+/**
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+
+ * http://www.apache.org/licenses/LICENSE-2.0
+
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { KLineData } from '../../common/Data'
+import type { DataTransformTemplate } from '../../common/DataTransform'
+
+import { scanDataList } from './scan'
+
+/**
+ * A new line is added when the close exceeds the last line,
+ * a reversal needs to exceed the extreme of the last `n` lines
+ */
+const lineBreak: DataTransformTemplate = {
+  name: 'lineBreak',
+  calcParams: [3],
+  transform: (dataList, params) => {
+    const count = params.calcParams[0] as number
+    return scanDataList(
+      dataList,
+      params,
+      () => dataList.length > 0 ? { base: dataList[0].close, volume: 0 } : null,
+      (scan, { timestamp, close, volume }, lines) => {
+        scan.volume += volume ?? 0
+        const addLine: ((open: number) => void) = open => {
+          lines.push({ timestamp, open, high: Math.max(open, close), low: Math.min(open, close), close, volume: scan.volume })
+          scan.volume = 0
+        }
+        if (lines.length === 0) {
+          if (close !== scan.base) {
+            addLine(scan.base)
+          }
+          return
+        }
+        const last: KLineData = lines[lines.length - 1]
+        const recentLines = lines.slice(-count)
+        const up = last.close > last.open
+        if (up) {
+          if (close > last.close) {
+            addLine(last.close)
+          } else if (close < Math.min(...recentLines.map(line => line.low))) {
+            addLine(last.open)
+          }
+        } else {
+          if (close < last.close) {
+            addLine(last.close)
+          } else if (close > Math.max(...recentLines.map(line => line.high))) {
+            addLine(last.open)
+          }
+        }
+        scan.base = close
+      }
+    )
+  }
+}
+
+export default lineBreak
@@ -0,0 +1,76 @@
+/**
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+
+ * http://www.apache.org/licenses/LICENSE-2.0
+
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type Nullable from '../../common/Nullable'
+import type { KLineData } from '../../common/Data'
+import type { DataTransformTemplate } from '../../common/DataTransform'
+
+import { getBoxSize } from './boxSize'
+import { scanDataList } from './scan'
+
+/**
+ * Each column is converted to a data, open is the first box and close is the last box,
+ * rising columns (X) are up data and falling columns (O) are down data, the last column is still forming
+ */
+const pointAndFigure: DataTransformTemplate = {
+  name: 'pointAndFigure',
+  calcParams: ['atr', 14, 3],
+  transform: (dataList, params) => {
+    const boxSize = getBoxSize(dataList, params)
+    const reversal = (params.calcParams[2] as number) * boxSize
+    return scanDataList<{ base: number, column: Nullable<KLineData>, volume: number }>(
+      dataList,
+      params,
+      () => dataList.length > 0 && boxSize > 0 ? { base: dataList[0].close, column: null, volume: 0 } : null,
+      (scan, { timestamp, close, volume: v }, columns) => {
+        scan.volume += v ?? 0
+        const { base } = scan
+        let column = scan.column
+        if (column === null) {
+          const boxCount = Math.floor(Math.abs(close - base) / boxSize)
+          if (boxCount > 0) {
+            const end = close > base ? base + boxCount * boxSize : base - boxCount * boxSize
+            scan.column = { timestamp, open: base, high: Math.max(base, end), low: Math.min(base, end), close: end, volume: scan.volume }
+            scan.volume = 0
+          }
+          return
+        }
+        const up = column.close > column.open
+        const extendCount = Math.floor((up ? close - column.close : column.close - close) / boxSize)
+        if (extendCount > 0) {
+          column.close += up ? extendCount * boxSize : -extendCount * boxSize
+        } else if ((up ? column.close - close : close - column.close) >= reversal) {
+          columns.push(column)
+          // The new column starts one box away from the last column
+          const open = up ? column.close - boxSize : column.close + boxSize
+          const boxCount = Math.floor(Math.abs(close - column.close) / boxSize)
+          const end = up ? column.close - boxCount * boxSize : column.close + boxCount * boxSize
+          column = { timestamp, open, high: 0, low: 0, close: end, volume: 0 }
+          scan.column = column
+        }
+        column.high = Math.max(column.open, column.close)
+        column.low = Math.min(column.open, column.close)
+        column.volume = (column.volume ?? 0) + scan.volume
+        scan.volume = 0
+      },
+      ({ column }, columns) => {
+        if (column !== null) {
+          columns.push(column)
+        }
+      }
+    )
+  }
+}
+
+export default pointAndFigure
@@ -0,0 +1,53 @@
+/**
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+
+ * http://www.apache.org/licenses/LICENSE-2.0
+
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { DataTransformTemplate } from '../../common/DataTransform'
+
+import { getBoxSize } from './boxSize'
+import { scanDataList } from './scan'
+
+const renko: DataTransformTemplate = {
+  name: 'renko',
+  calcParams: ['atr', 14],
+  transform: (dataList, params) => {
+    const boxSize = getBoxSize(dataList, params)
+    return scanDataList(
+      dataList,
+      params,
+      () => dataList.length > 0 && boxSize > 0 ? { top: dataList[0].close, bottom: dataList[0].close, volume: 0 } : null,
+      (scan, { timestamp, close, volume }, bricks) => {
+        scan.volume += volume ?? 0
+        // A reversal needs to exceed the opposite side of the last brick
+        const upCount = Math.floor((close - scan.top) / boxSize)
+        const downCount = Math.floor((scan.bottom - close) / boxSize)
+        for (let i = 0; i < upCount; i++) {
+          const { top } = scan
+          bricks.push({ timestamp, open: top, high: top + boxSize, low: top, close: top + boxSize, volume: scan.volume })
+          scan.bottom = top
+          scan.top = top + boxSize
+          scan.volume = 0
+        }
+        for (let i = 0; i < downCount; i++) {
+          const { bottom } = scan
+          bricks.push({ timestamp, open: bottom, high: bottom, low: bottom - boxSize, close: bottom - boxSize, volume: scan.volume })
+          scan.top = bottom
+          scan.bottom = bottom - boxSize
+          scan.volume = 0
+        }
+      }
+    )
+  }
+}
+
+export default renko
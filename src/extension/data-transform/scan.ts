@@ -0,0 +1,63 @@
+/**
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+
+ * http://www.apache.org/licenses/LICENSE-2.0
+
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type Nullable from '../../common/Nullable'
+import type { KLineData } from '../../common/Data'
+import type { DataTransformParams } from '../../common/DataTransform'
+import { clone, isValid } from '../../common/utils/typeChecks'
+
+interface ScanCheckpoint<S> {
+  /**
+   * The count of the source data scanned before the checkpoint
+   */
+  count: number
+  result: KLineData[]
+  scan: S
+}
+
+/**
+ * Scan the source data list in order with the state `S`,
+ * the state before the last source data is kept, so that only the last source data and the new ones
+ * are scanned again when updating, the data in the result must not be changed after it is added
+ */
+export function scanDataList<S> (
+  dataList: KLineData[],
+  params: DataTransformParams,
+  create: () => Nullable<S>,
+  step: (scan: S, data: KLineData, result: KLineData[]) => void,
+  finish?: (scan: S, result: KLineData[]) => void
+): KLineData[] {
+  const { type, state } = params
+  let checkpoint = state.checkpoint as Nullable<ScanCheckpoint<S>> | undefined
+  if (type === 'init' || type === 'forward' || !isValid(checkpoint) || checkpoint.count > dataList.length) {
+    const scan = create()
+    if (scan === null) {
+      state.checkpoint = null
+      return []
+    }
+    checkpoint = { count: 0, result: [], scan }
+  }
+  const scan = clone(checkpoint.scan)
+  const result = checkpoint.result.slice()
+  const lastIndex = dataList.length - 1
+  for (let i = checkpoint.count; i < lastIndex; i++) {
+    step(scan, dataList[i], result)
+  }
+  state.checkpoint = { count: Math.max(lastIndex, checkpoint.count), result: result.slice(), scan: clone(scan) }
+  if (lastIndex >= checkpoint.count) {
+    step(scan, dataList[lastIndex], result)
+  }
+  finish?.(scan, result)
+  return result
+}
@@ -53,6 +53,49 @@ export function checkCoordinateOnLine (coordinate: Coordinate, attrs: LineAttrs
   return false
 }
 
+/**
+ * Simplify the polyline with the Ramer-Douglas-Peucker algorithm, returns the indexes of the kept coordinates
+ */
+export function simplifyCoordinates (coordinates: Coordinate[], tolerance: number): number[] {
+  const length = coordinates.length
+  const kept: boolean[] = []
+  for (let i = 0; i < length; i++) {
+    kept.push(i === 0 || i === length - 1)
+  }
+  const ranges: Array<[number, number]> = length > 2 ? [[0, length - 1]] : []
+  while (ranges.length > 0) {
+    const [from, to] = ranges.pop()!
+    const start = coordinates[from]
+    const end = coordinates[to]
+    const dx = end.x - start.x
+    const dy = end.y - start.y
+    const distance = Math.sqrt(dx * dx + dy * dy)
+    let maxDistance = 0
+    let index = -1
+    for (let i = from + 1; i < to; i++) {
+      const { x, y } = coordinates[i]
+      const d = distance === 0
+        ? Math.sqrt((x - start.x) * (x - start.x) + (y - start.y) * (y - start.y))
+        : Math.abs(dy * (x - start.x) - dx * (y - start.y)) / distance
+      if (d > maxDistance) {
+        maxDistance = d
+        index = i
+      }
+    }
+    if (maxDistance > tolerance) {
+      kept[index] = true
+      ranges.push([from, index], [index, to])
+    }
+  }
+  const indexes: number[] = []
+  kept.forEach((k, i) => {
+    if (k) {
+      indexes.push(i)
+    }
+  })
+  return indexes
+}
+
 export function getLinearYFromSlopeIntercept (kb: Nullable<number[]>, coordinate: Coordinate): number {
   if (kb !== null) {
     return coordinate.x * kb[0] + kb[1]
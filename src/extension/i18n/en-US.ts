@@ -22,7 +22,13 @@ const enUS: Locales = {
   close: 'Close: ',
   volume: 'Volume: ',
   turnover: 'Turnover: ',
-  change: 'Change: '
+  change: 'Change: ',
+  bars: 'Bars: ',
+  target: 'Target: ',
+  stop: 'Stop: ',
+  riskReward: 'Risk/Reward: ',
+  buy: 'Buy',
+  sell: 'Sell'
 }
 
 export default enUS
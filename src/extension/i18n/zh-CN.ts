@@ -22,7 +22,13 @@ const zhCN: Locales = {
   close: '收：',
   volume: '成交量：',
   turnover: '成交额：',
-  change: '涨幅：'
+  change: '涨幅：',
+  bars: 'K线数：',
+  target: '止盈：',
+  stop: '止损：',
+  riskReward: '盈亏比：',
+  buy: '买',
+  sell: '卖'
 }
 
 export default zhCN
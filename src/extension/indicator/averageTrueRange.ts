@@ -0,0 +1,62 @@
+/**
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+
+ * http://www.apache.org/licenses/LICENSE-2.0
+
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { KLineData } from '../../common/Data'
+import type { IndicatorTemplate } from '../../component/Indicator'
+
+interface Atr {
+  atr?: number
+}
+
+/**
+ * Average true range smoothed by the Wilder's moving average, the value is undefined before `period` data
+ */
+export function calcAverageTrueRange (dataList: KLineData[], period: number): Array<number | undefined> {
+  let trSum = 0
+  let atr = 0
+  return dataList.map((kLineData, i) => {
+    const prevClose = dataList[i - 1]?.close ?? kLineData.close
+    const tr = Math.max(kLineData.high, prevClose) - Math.min(kLineData.low, prevClose)
+    if (i < period - 1) {
+      trSum += tr
+      return undefined
+    }
+    if (i === period - 1) {
+      atr = (trSum + tr) / period
+    } else {
+      atr = (atr * (period - 1) + tr) / period
+    }
+    return atr
+  })
+}
+
+/**
+ * ATR
+ * TR = MAX(HIGH, REF(CLOSE, 1)) - MIN(LOW, REF(CLOSE, 1))
+ * ATR = (REF(ATR, 1) * (N - 1) + TR) / N
+ */
+const averageTrueRange: IndicatorTemplate<Atr, number> = {
+  name: 'ATR',
+  shortName: 'ATR',
+  calcParams: [14],
+  figures: [
+    { key: 'atr', title: 'ATR: ', type: 'line' }
+  ],
+  calc: (dataList, indicator) => {
+    const params = indicator.calcParams
+    return calcAverageTrueRange(dataList, params[0]).map(atr => ({ atr }))
+  }
+}
+
+export default averageTrueRange
@@ -70,6 +70,25 @@ const bollingerBands: IndicatorTemplate<Boll, number> = {
       }
       return boll
     })
+  },
+  incrementalCalc: (dataList, indicator, { type, range }) => {
+    const params = indicator.calcParams
+    const p = params[0] - 1
+    // Prepended data also affects the warm-up bars of the previous first data
+    const to = type === 'forward' ? Math.min(dataList.length, range.to + p) : range.to
+    const bolls: Boll[] = []
+    for (let i = range.from; i < to; i++) {
+      const boll: Boll = {}
+      if (i >= p) {
+        const windowDataList = dataList.slice(i - p, i + 1)
+        boll.mid = windowDataList.reduce((sum, data) => sum + data.close, 0) / params[0]
+        const md = getBollMd(windowDataList, boll.mid)
+        boll.up = boll.mid + params[1] * md
+        boll.dn = boll.mid - params[1] * md
+      }
+      bolls.push(boll)
+    }
+    return bolls
   }
 }
 
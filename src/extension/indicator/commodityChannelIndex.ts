@@ -30,6 +30,8 @@ const commodityChannelIndex: IndicatorTemplate<Cci, number> = {
   name: 'CCI',
   shortName: 'CCI',
   calcParams: [20],
+  levels: [{ value: -100 }, { value: 100 }],
+  bands: [{ from: -100, to: 100 }],
   figures: [
     { key: 'cci', title: 'CCI: ', type: 'line' }
   ],
@@ -0,0 +1,45 @@
+/**
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+
+ * http://www.apache.org/licenses/LICENSE-2.0
+
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type Nullable from '../../common/Nullable'
+import type { KLineData } from '../../common/Data'
+
+import type { IndicatorMarker } from '../../component/Indicator'
+
+import { i18n } from '../i18n'
+
+/**
+ * Create the markers where the difference of two values crosses zero,
+ * buying below the candle when it turns positive, selling above the candle when it turns negative
+ */
+export function createCrossMarkers<D> (
+  dataList: KLineData[],
+  result: D[],
+  locale: string,
+  getDiff: (data?: D) => Nullable<number>
+): IndicatorMarker[] {
+  const markers: IndicatorMarker[] = []
+  for (let i = 1; i < result.length; i++) {
+    const prevDiff = getDiff(result[i - 1])
+    const diff = getDiff(result[i])
+    if (prevDiff !== null && diff !== null) {
+      if (prevDiff <= 0 && diff > 0) {
+        markers.push({ timestamp: dataList[i].timestamp, position: 'below', text: i18n('buy', locale) })
+      } else if (prevDiff >= 0 && diff < 0) {
+        markers.push({ timestamp: dataList[i].timestamp, position: 'above', text: i18n('sell', locale) })
+      }
+    }
+  }
+  return markers
+}
@@ -0,0 +1,59 @@
+/**
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+
+ * http://www.apache.org/licenses/LICENSE-2.0
+
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { KLineData } from '../../common/Data'
+import type { IndicatorTemplate } from '../../component/Indicator'
+
+import { getMaxMin } from '../../common/utils/number'
+
+interface Dc {
+  up?: number
+  mid?: number
+  dn?: number
+}
+
+/**
+ * DC
+ * UP = HIGH(N)
+ * DN = LOW(N)
+ * MID = (UP + DN) / 2
+ */
+const donchianChannels: IndicatorTemplate<Dc, number> = {
+  name: 'DC',
+  shortName: 'DC',
+  series: 'price',
+  calcParams: [20],
+  precision: 2,
+  shouldOhlc: true,
+  figures: [
+    { key: 'up', title: 'UP: ', type: 'line' },
+    { key: 'mid', title: 'MID: ', type: 'line' },
+    { key: 'dn', title: 'DN: ', type: 'line' }
+  ],
+  calc: (dataList, indicator) => {
+    const p = indicator.calcParams[0] - 1
+    return dataList.map((_, i) => {
+      const dc: Dc = {}
+      if (i >= p) {
+        const [up, dn] = getMaxMin<KLineData>(dataList.slice(i - p, i + 1), 'high', 'low')
+        dc.up = up
+        dc.dn = dn
+        dc.mid = (up + dn) / 2
+      }
+      return dc
+    })
+  }
+}
+
+export default donchianChannels
@@ -56,6 +56,33 @@ const exponentialMovingAverage: IndicatorTemplate<Ema, number> = {
       })
       return ema
     })
+  },
+  incrementalCalc: (dataList, indicator, { type, range, result }) => {
+    // Every value depends on the first data, prepended data needs full calculation
+    if (type === 'forward') {
+      return null
+    }
+    const { calcParams: params, figures } = indicator
+    const emas: Ema[] = []
+    for (let i = range.from; i < range.to; i++) {
+      const ema = {}
+      const prevEma = i - 1 >= range.from ? emas[i - 1 - range.from] : result[i - 1]
+      const close = dataList[i].close
+      params.forEach((p, index) => {
+        const key = figures[index].key
+        if (i > p - 1) {
+          ema[key] = (2 * close + (p - 1) * (prevEma[key] as number)) / (p + 1)
+        } else if (i === p - 1) {
+          let closeSum = 0
+          for (let j = 0; j <= i; j++) {
+            closeSum += dataList[j].close
+          }
+          ema[key] = closeSum / p
+        }
+      })
+      emas.push(ema)
+    }
+    return emas
   }
 }
 
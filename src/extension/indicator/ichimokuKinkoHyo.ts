@@ -0,0 +1,102 @@
+/**
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+
+ * http://www.apache.org/licenses/LICENSE-2.0
+
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { KLineData } from '../../common/Data'
+import type { IndicatorFigure, IndicatorTemplate } from '../../component/Indicator'
+
+import { getMaxMin } from '../../common/utils/number'
+
+interface Ichimoku {
+  tenkan?: number
+  kijun?: number
+  chikou?: number
+  senkouA?: number
+  senkouB?: number
+}
+
+/**
+ * The middle of the highest high and the lowest low of the last count data
+ */
+function getMiddlePrice (dataList: KLineData[], index: number, count: number): number {
+  const [high, low] = getMaxMin<KLineData>(dataList.slice(index - count + 1, index + 1), 'high', 'low')
+  return (high + low) / 2
+}
+
+function calcIchimoku (dataList: KLineData[], index: number, params: number[]): Ichimoku {
+  const [tenkanCount, kijunCount, senkouBCount] = params
+  const ichimoku: Ichimoku = { chikou: dataList[index].close }
+  if (index >= tenkanCount - 1) {
+    ichimoku.tenkan = getMiddlePrice(dataList, index, tenkanCount)
+  }
+  if (index >= kijunCount - 1) {
+    ichimoku.kijun = getMiddlePrice(dataList, index, kijunCount)
+  }
+  if (ichimoku.tenkan !== undefined && ichimoku.kijun !== undefined) {
+    ichimoku.senkouA = (ichimoku.tenkan + ichimoku.kijun) / 2
+  }
+  if (index >= senkouBCount - 1) {
+    ichimoku.senkouB = getMiddlePrice(dataList, index, senkouBCount)
+  }
+  return ichimoku
+}
+
+/**
+ * The leading spans are drawn kijun count - 1 bars to the future, the lagging span to the past
+ */
+function createFigures (params: number[]): Array<IndicatorFigure<Ichimoku>> {
+  const shift = params[1] - 1
+  return [
+    { key: 'cloud', type: 'fill', between: ['senkouA', 'senkouB'], shift },
+    { key: 'tenkan', title: 'TENKAN: ', type: 'line' },
+    { key: 'kijun', title: 'KIJUN: ', type: 'line' },
+    { key: 'chikou', title: 'CHIKOU: ', type: 'line', shift: -shift },
+    { key: 'senkouA', title: 'SENKOU A: ', type: 'line', shift },
+    { key: 'senkouB', title: 'SENKOU B: ', type: 'line', shift }
+  ]
+}
+
+/**
+ * ICHIMOKU
+ * TENKAN = (HIGH(9) + LOW(9)) / 2
+ * KIJUN = (HIGH(26) + LOW(26)) / 2
+ * CHIKOU = CLOSE, drawn 25 bars to the past
+ * SENKOU A = (TENKAN + KIJUN) / 2, drawn 25 bars to the future
+ * SENKOU B = (HIGH(52) + LOW(52)) / 2, drawn 25 bars to the future
+ */
+const ichimokuKinkoHyo: IndicatorTemplate<Ichimoku, number> = {
+  name: 'ICHIMOKU',
+  shortName: 'ICHIMOKU',
+  series: 'price',
+  calcParams: [9, 26, 52],
+  precision: 2,
+  shouldOhlc: true,
+  figures: createFigures([9, 26, 52]),
+  regenerateFigures: (params) => createFigures(params),
+  calc: (dataList, indicator) => {
+    const params = indicator.calcParams
+    return dataList.map((_, i) => calcIchimoku(dataList, i, params))
+  },
+  incrementalCalc: (dataList, indicator, { type, range }) => {
+    const params = indicator.calcParams
+    // Prepended data also affects the warm-up bars of the previous first data
+    const to = type === 'forward' ? Math.min(dataList.length, range.to + Math.max(...params) - 1) : range.to
+    const result: Ichimoku[] = []
+    for (let i = range.from; i < to; i++) {
+      result.push(calcIchimoku(dataList, i, params))
+    }
+    return result
+  }
+}
+
+export default ichimokuKinkoHyo
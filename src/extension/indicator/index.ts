@@ -17,6 +17,7 @@ import type Nullable from '../../common/Nullable'
 import IndicatorImp, { type IndicatorTemplate, type IndicatorConstructor } from '../../component/Indicator'
 
 import averagePrice from './averagePrice'
+import averageTrueRange from './averageTrueRange'
 import awesomeOscillator from './awesomeOscillator'
 import bias from './bias'
 import bollingerBands from './bollingerBands'
@@ -26,8 +27,11 @@ import commodityChannelIndex from './commodityChannelIndex'
 import currentRatio from './currentRatio'
 import differentOfMovingAverage from './differentOfMovingAverage'
 import directionalMovementIndex from './directionalMovementIndex'
+import donchianChannels from './donchianChannels'
 import easeOfMovementValue from './easeOfMovementValue'
 import exponentialMovingAverage from './exponentialMovingAverage'
+import ichimokuKinkoHyo from './ichimokuKinkoHyo'
+import keltnerChannels from './keltnerChannels'
 import momentum from './momentum'
 import movingAverage from './movingAverage'
 import movingAverageConvergenceDivergence from './movingAverageConvergenceDivergence'
@@ -39,20 +43,24 @@ import relativeStrengthIndex from './relativeStrengthIndex'
 import simpleMovingAverage from './simpleMovingAverage'
 import stoch from './stoch'
 import stopAndReverse from './stopAndReverse'
+import supertrend from './supertrend'
 import tripleExponentiallySmoothedAverage from './tripleExponentiallySmoothedAverage'
 import volume from './volume'
+import volumeProfile from './volumeProfile'
 import volumeRatio from './volumeRatio'
+import volumeWeightedAveragePrice from './volumeWeightedAveragePrice'
 import williamsR from './williamsR'
 
 const indicators: Record<string, IndicatorConstructor> = {}
 
 const extensions = [
-  averagePrice, awesomeOscillator, bias, bollingerBands, brar,
+  averagePrice, averageTrueRange, awesomeOscillator, bias, bollingerBands, brar,
   bullAndBearIndex, commodityChannelIndex, currentRatio, differentOfMovingAverage,
-  directionalMovementIndex, easeOfMovementValue, exponentialMovingAverage, momentum,
-  movingAverage, movingAverageConvergenceDivergence, onBalanceVolume, priceAndVolumeTrend,
-  psychologicalLine, rateOfChange, relativeStrengthIndex, simpleMovingAverage,
-  stoch, stopAndReverse, tripleExponentiallySmoothedAverage, volume, volumeRatio, williamsR
+  directionalMovementIndex, donchianChannels, easeOfMovementValue, exponentialMovingAverage,
+  ichimokuKinkoHyo, keltnerChannels, momentum, movingAverage, movingAverageConvergenceDivergence,
+  onBalanceVolume, priceAndVolumeTrend, psychologicalLine, rateOfChange, relativeStrengthIndex,
+  simpleMovingAverage, stoch, stopAndReverse, supertrend, tripleExponentiallySmoothedAverage,
+  volume, volumeProfile, volumeRatio, volumeWeightedAveragePrice, williamsR
 ]
 
 extensions.forEach((indicator: IndicatorTemplate) => {
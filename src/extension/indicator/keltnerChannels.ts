@@ -0,0 +1,71 @@
+/**
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+
+ * http://www.apache.org/licenses/LICENSE-2.0
+
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { IndicatorTemplate } from '../../component/Indicator'
+
+import { calcAverageTrueRange } from './averageTrueRange'
+
+interface Kc {
+  up?: number
+  mid?: number
+  dn?: number
+}
+
+/**
+ * KC
+ * MID = EMA(CLOSE, N1)
+ * UP = MID + M * ATR(N2)
+ * DN = MID - M * ATR(N2)
+ */
+const keltnerChannels: IndicatorTemplate<Kc, number> = {
+  name: 'KC',
+  shortName: 'KC',
+  series: 'price',
+  calcParams: [20, 10, 2],
+  precision: 2,
+  shouldOhlc: true,
+  figures: [
+    { key: 'up', title: 'UP: ', type: 'line' },
+    { key: 'mid', title: 'MID: ', type: 'line' },
+    { key: 'dn', title: 'DN: ', type: 'line' }
+  ],
+  calc: (dataList, indicator) => {
+    const [emaPeriod, atrPeriod, multiplier] = indicator.calcParams
+    const atrs = calcAverageTrueRange(dataList, atrPeriod)
+    let closeSum = 0
+    let ema = 0
+    return dataList.map((kLineData, i) => {
+      const kc: Kc = {}
+      const close = kLineData.close
+      if (i < emaPeriod - 1) {
+        closeSum += close
+      } else {
+        if (i === emaPeriod - 1) {
+          ema = (closeSum + close) / emaPeriod
+        } else {
+          ema = (2 * close + (emaPeriod - 1) * ema) / (emaPeriod + 1)
+        }
+        kc.mid = ema
+        const atr = atrs[i]
+        if (atr !== undefined) {
+          kc.up = ema + multiplier * atr
+          kc.dn = ema - multiplier * atr
+        }
+      }
+      return kc
+    })
+  }
+}
+
+export default keltnerChannels
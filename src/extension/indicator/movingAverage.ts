@@ -12,8 +12,13 @@
  * limitations under the License.
  */
 
+import type Nullable from '../../common/Nullable'
+import { isNumber } from '../../common/utils/typeChecks'
+
 import type { IndicatorTemplate } from '../../component/Indicator'
 
+import { createCrossMarkers } from './crossMarkers'
+
 interface Ma {
   ma1?: number
   ma2?: number
@@ -23,8 +28,9 @@ interface Ma {
 
 /**
  * MA 移动平均
+ * The golden and dead crosses of the first two lines are marked when `extendData.markers` is `true`
  */
-const movingAverage: IndicatorTemplate<Ma, number> = {
+const movingAverage: IndicatorTemplate<Ma, number, Nullable<{ markers?: boolean }>> = {
   name: 'MA',
   shortName: 'MA',
   series: 'price',
@@ -53,6 +59,33 @@ const movingAverage: IndicatorTemplate<Ma, number> = {
       })
       return ma
     })
+  },
+  incrementalCalc: (dataList, indicator, { type, range }) => {
+    const { calcParams: params, figures } = indicator
+    // Prepended data also affects the warm-up bars of the previous first data
+    const to = type === 'forward' ? Math.min(dataList.length, range.to + Math.max(...params) - 1) : range.to
+    const result: Ma[] = []
+    for (let i = range.from; i < to; i++) {
+      const ma = {}
+      params.forEach((p, index) => {
+        if (i >= p - 1) {
+          let closeSum = 0
+          for (let j = i - (p - 1); j <= i; j++) {
+            closeSum += dataList[j].close
+          }
+          ma[figures[index].key] = closeSum / p
+        }
+      })
+      result.push(ma)
+    }
+    return result
+  },
+  createMarkers: ({ dataList, indicator, locale }) => {
+    const { extendData, result } = indicator
+    if (extendData?.markers !== true) {
+      return []
+    }
+    return createCrossMarkers(dataList, result, locale, ma => isNumber(ma?.ma1) && isNumber(ma.ma2) ? ma.ma1 - ma.ma2 : null)
   }
 }
 
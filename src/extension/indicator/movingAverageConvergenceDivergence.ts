@@ -12,9 +12,13 @@
  * limitations under the License.
  */
 
+import type Nullable from '../../common/Nullable'
 import { formatValue } from '../../common/utils/format'
+import { isNumber, isValid } from '../../common/utils/typeChecks'
 
-import type { IndicatorTemplate } from '../../component/Indicator'
+import type { Indicator, IndicatorTemplate } from '../../component/Indicator'
+
+import { createCrossMarkers } from './crossMarkers'
 
 interface Macd {
   dif?: number
@@ -22,6 +26,38 @@ interface Macd {
   macd?: number
 }
 
+type MacdExtendData = Nullable<{ markers?: boolean }>
+
+interface MacdEma {
+  closeSum: number
+  emaShort: number
+  emaLong: number
+}
+
+interface MacdEmaCache {
+  calcParams: number[]
+  emas: MacdEma[]
+}
+
+/**
+ * The EMAs of each data, they are not kept in the result,
+ * the incremental calculation continues from the EMAs of the previous data
+ */
+const emaCaches = new WeakMap<Indicator<Macd, number, MacdExtendData>, MacdEmaCache>()
+
+function calcMacdEma (prev: Nullable<MacdEma>, close: number, i: number, params: number[]): MacdEma {
+  const closeSum = (prev?.closeSum ?? 0) + close
+  let emaShort = prev?.emaShort ?? 0
+  let emaLong = prev?.emaLong ?? 0
+  if (i >= params[0] - 1) {
+    emaShort = i > params[0] - 1 ? (2 * close + (params[0] - 1) * emaShort) / (params[0] + 1) : closeSum / params[0]
+  }
+  if (i >= params[1] - 1) {
+    emaLong = i > params[1] - 1 ? (2 * close + (params[1] - 1) * emaLong) / (params[1] + 1) : closeSum / params[1]
+  }
+  return { closeSum, emaShort, emaLong }
+}
+
 /**
  * MACD：参数快线移动平均、慢线移动平均、移动平均，
  * 默认参数值12、26、9。
@@ -29,8 +65,9 @@ interface Macd {
  * ⒉求这两条指数平滑移动平均线的差，即：DIFF = EMA(SHORT) － EMA(LONG)。
  * ⒊再计算DIFF的M日的平均的指数平滑移动平均线，记为DEA。
  * ⒋最后用DIFF减DEA，得MACD。MACD通常绘制成围绕零轴线波动的柱形图。MACD柱状大于0涨颜色，小于0跌颜色。
+ * The crosses of DIF and DEA are marked when `extendData.markers` is `true`
  */
-const movingAverageConvergenceDivergence: IndicatorTemplate<Macd, number> = {
+const movingAverageConvergenceDivergence: IndicatorTemplate<Macd, number, MacdExtendData> = {
   name: 'MACD',
   shortName: 'MACD',
   calcParams: [12, 26, 9],
@@ -61,33 +98,17 @@ const movingAverageConvergenceDivergence: IndicatorTemplate<Macd, number> = {
   ],
   calc: (dataList, indicator) => {
     const params = indicator.calcParams
-    let closeSum = 0
-    let emaShort = 0
-    let emaLong = 0
+    const emas: MacdEma[] = []
     let dif = 0
     let difSum = 0
     let dea = 0
     const maxPeriod = Math.max(params[0], params[1])
-    return dataList.map((kLineData, i) => {
+    const result = dataList.map((kLineData, i) => {
       const macd: Macd = {}
-      const close = kLineData.close
-      closeSum += close
-      if (i >= params[0] - 1) {
-        if (i > params[0] - 1) {
-          emaShort = (2 * close + (params[0] - 1) * emaShort) / (params[0] + 1)
-        } else {
-          emaShort = closeSum / params[0]
-        }
-      }
-      if (i >= params[1] - 1) {
-        if (i > params[1] - 1) {
-          emaLong = (2 * close + (params[1] - 1) * emaLong) / (params[1] + 1)
-        } else {
-          emaLong = closeSum / params[1]
-        }
-      }
+      const ema = calcMacdEma(i > 0 ? emas[i - 1] : null, kLineData.close, i, params)
+      emas.push(ema)
       if (i >= maxPeriod - 1) {
-        dif = emaShort - emaLong
+        dif = ema.emaShort - ema.emaLong
         macd.dif = dif
         difSum += dif
         if (i >= maxPeriod + params[2] - 2) {
@@ -102,6 +123,65 @@ const movingAverageConvergenceDivergence: IndicatorTemplate<Macd, number> = {
       }
       return macd
     })
+    emaCaches.set(indicator, { calcParams: params, emas })
+    return result
+  },
+  incrementalCalc: (dataList, indicator, { type, range, result }) => {
+    // Every value depends on the first data, prepended data needs full calculation
+    if (type === 'forward') {
+      return null
+    }
+    const params = indicator.calcParams
+    const cache = emaCaches.get(indicator)
+    // The EMAs of the previous data are needed, otherwise the full calculation keeps them again
+    if (
+      !isValid(cache) ||
+      cache.emas.length < range.from ||
+      cache.calcParams.length !== params.length ||
+      cache.calcParams.some((param, index) => param !== params[index])
+    ) {
+      return null
+    }
+    const emas = cache.emas
+    emas.length = range.from
+    const maxPeriod = Math.max(params[0], params[1])
+    const macds: Macd[] = []
+    // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- ignore
+    const getMacd: ((i: number) => Macd) = i => (i >= range.from ? macds[i - range.from] : result[i]) ?? {}
+    for (let i = range.from; i < range.to; i++) {
+      const ema = calcMacdEma(i > 0 ? emas[i - 1] : null, dataList[i].close, i, params)
+      emas.push(ema)
+      const macd: Macd = {}
+      const prevMacd = getMacd(i - 1)
+      if (i >= maxPeriod - 1) {
+        const dif = ema.emaShort - ema.emaLong
+        macd.dif = dif
+        let dea: Nullable<number> = null
+        if (i > maxPeriod + params[2] - 2) {
+          dea = (dif * 2 + prevMacd.dea! * (params[2] - 1)) / (params[2] + 1)
+        } else if (i === maxPeriod + params[2] - 2) {
+          let difSum = dif
+          for (let j = maxPeriod - 1; j < i; j++) {
+            difSum += getMacd(j).dif ?? 0
+          }
+          dea = difSum / params[2]
+        }
+        if (dea !== null) {
+          macd.macd = (dif - dea) * 2
+          macd.dea = dea
+        }
+      }
+      macds.push(macd)
+    }
+    return macds
+  },
+  createMarkers: ({ dataList, indicator, locale }) => {
+    const { extendData, result } = indicator
+    if (extendData?.markers !== true) {
+      return []
+    }
+    // The crosses of DIF and DEA
+    return createCrossMarkers(dataList, result, locale, macd => isNumber(macd?.dif) && isNumber(macd.dea) ? macd.dif - macd.dea : null)
   }
 }
 
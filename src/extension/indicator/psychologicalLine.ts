@@ -27,6 +27,8 @@ const psychologicalLine: IndicatorTemplate<Psy, number> = {
   name: 'PSY',
   shortName: 'PSY',
   calcParams: [12, 6],
+  levels: [{ value: 25 }, { value: 75 }],
+  bands: [{ from: 25, to: 75 }],
   figures: [
     { key: 'psy', title: 'PSY: ', type: 'line' },
     { key: 'maPsy', title: 'MAPSY: ', type: 'line' }
@@ -28,6 +28,8 @@ const relativeStrengthIndex: IndicatorTemplate<Rsi, number> = {
   name: 'RSI',
   shortName: 'RSI',
   calcParams: [6, 12, 24],
+  levels: [{ value: 30 }, { value: 70 }],
+  bands: [{ from: 30, to: 70 }],
   figures: [
     { key: 'rsi1', title: 'RSI1: ', type: 'line' },
     { key: 'rsi2', title: 'RSI2: ', type: 'line' },
@@ -69,6 +71,32 @@ const relativeStrengthIndex: IndicatorTemplate<Rsi, number> = {
       })
       return rsi
     })
+  },
+  incrementalCalc: (dataList, indicator, { type, range }) => {
+    const { calcParams: params, figures } = indicator
+    // Prepended data changes the first change of the previous first data and the windows containing it
+    const to = type === 'forward' ? Math.min(dataList.length, range.to + Math.max(...params)) : range.to
+    const rsis: Rsi[] = []
+    for (let i = range.from; i < to; i++) {
+      const rsi = {}
+      params.forEach((p, index) => {
+        if (i >= p - 1) {
+          let sumCloseA = 0
+          let sumCloseB = 0
+          for (let j = i - (p - 1); j <= i; j++) {
+            const tmp = dataList[j].close - (dataList[j - 1] ?? dataList[j]).close
+            if (tmp > 0) {
+              sumCloseA += tmp
+            } else {
+              sumCloseB += Math.abs(tmp)
+            }
+          }
+          rsi[figures[index].key] = sumCloseB !== 0 ? 100 - (100.0 / (1 + sumCloseA / sumCloseB)) : 0
+        }
+      })
+      rsis.push(rsi)
+    }
+    return rsis
   }
 }
 
@@ -35,6 +35,8 @@ const stoch: IndicatorTemplate<Kdj, number> = {
   name: 'KDJ',
   shortName: 'KDJ',
   calcParams: [9, 3, 3],
+  levels: [{ value: 20 }, { value: 80 }],
+  bands: [{ from: 20, to: 80 }],
   figures: [
     { key: 'k', title: 'K: ', type: 'line' },
     { key: 'd', title: 'D: ', type: 'line' },
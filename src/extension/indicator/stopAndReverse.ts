@@ -12,9 +12,13 @@
  * limitations under the License.
  */
 
+import type Nullable from '../../common/Nullable'
 import { formatValue } from '../../common/utils/format'
+import { isNumber } from '../../common/utils/typeChecks'
 
-import type { IndicatorTemplate } from '../../component/Indicator'
+import type { IndicatorMarker, IndicatorTemplate } from '../../component/Indicator'
+
+import { i18n } from '../i18n'
 
 interface Sar {
   sar?: number
@@ -22,7 +26,10 @@ interface Sar {
   low: number
 }
 
-const stopAndReverse: IndicatorTemplate<Sar, number> = {
+/**
+ * The flips are marked when `extendData.markers` is `true`
+ */
+const stopAndReverse: IndicatorTemplate<Sar, number, Nullable<{ markers?: boolean }>> = {
   name: 'SAR',
   shortName: 'SAR',
   series: 'price',
@@ -101,6 +108,25 @@ const stopAndReverse: IndicatorTemplate<Sar, number> = {
       }
       return { high, low, sar }
     })
+  },
+  createMarkers: ({ dataList, indicator, locale }) => {
+    const { extendData, result } = indicator
+    const markers: IndicatorMarker[] = []
+    if (extendData?.markers !== true) {
+      return markers
+    }
+    // The sar is below the price in the up trend
+    const isUp = (data?: Sar): Nullable<boolean> => isNumber(data?.sar) ? data.sar < (data.high + data.low) / 2 : null
+    for (let i = 1; i < result.length; i++) {
+      const prevUp = isUp(result[i - 1] as Sar | undefined)
+      const up = isUp(result[i] as Sar | undefined)
+      if (prevUp !== null && up !== null && prevUp !== up) {
+        markers.push(up
+          ? { timestamp: dataList[i].timestamp, position: 'below', text: i18n('buy', locale) }
+          : { timestamp: dataList[i].timestamp, position: 'above', text: i18n('sell', locale) })
+      }
+    }
+    return markers
   }
 }
 
@@ -0,0 +1,90 @@
+/**
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+
+ * http://www.apache.org/licenses/LICENSE-2.0
+
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { formatValue } from '../../common/utils/format'
+
+import type { IndicatorTemplate } from '../../component/Indicator'
+
+import { calcAverageTrueRange } from './averageTrueRange'
+
+interface Supertrend {
+  supertrend?: number
+  /**
+   * 1 is the up trend, -1 is the down trend
+   */
+  trend?: number
+}
+
+/**
+ * SUPERTREND
+ * UP = (HIGH + LOW) / 2 - M * ATR(N), which only rises in the up trend
+ * DN = (HIGH + LOW) / 2 + M * ATR(N), which only falls in the down trend
+ * The trend flips when the close crosses the line, the line follows UP in the up trend and DN in the down trend
+ */
+const supertrend: IndicatorTemplate<Supertrend, number> = {
+  name: 'SUPERTREND',
+  shortName: 'SUPERTREND',
+  series: 'price',
+  calcParams: [10, 3],
+  precision: 2,
+  shouldOhlc: true,
+  figures: [
+    {
+      key: 'supertrend',
+      title: 'SUPERTREND: ',
+      type: 'line',
+      // The line segment to the next data takes the color of the trend at the current data
+      styles: ({ data, indicator, defaultStyles }) => {
+        const color = data.current?.trend === -1
+          ? formatValue(indicator.styles, 'bars[0].downColor', (defaultStyles!.bars)[0].downColor) as string
+          : formatValue(indicator.styles, 'bars[0].upColor', (defaultStyles!.bars)[0].upColor) as string
+        return { color }
+      }
+    }
+  ],
+  calc: (dataList, indicator) => {
+    const [period, multiplier] = indicator.calcParams
+    const atrs = calcAverageTrueRange(dataList, period)
+    let up = 0
+    let dn = 0
+    let trend = 1
+    return dataList.map((kLineData, i) => {
+      const result: Supertrend = {}
+      const atr = atrs[i]
+      if (atr !== undefined) {
+        const middle = (kLineData.high + kLineData.low) / 2
+        const basicUp = middle - multiplier * atr
+        const basicDn = middle + multiplier * atr
+        if (atrs[i - 1] === undefined) {
+          up = basicUp
+          dn = basicDn
+        } else {
+          const prevClose = dataList[i - 1].close
+          up = prevClose > up ? Math.max(basicUp, up) : basicUp
+          dn = prevClose < dn ? Math.min(basicDn, dn) : basicDn
+          if (trend === -1 && kLineData.close > dn) {
+            trend = 1
+          } else if (trend === 1 && kLineData.close < up) {
+            trend = -1
+          }
+        }
+        result.supertrend = trend === 1 ? up : dn
+        result.trend = trend
+      }
+      return result
+    })
+  }
+}
+
+export default supertrend
@@ -0,0 +1,313 @@
+/**
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+
+ * http://www.apache.org/licenses/LICENSE-2.0
+
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type Nullable from '../../common/Nullable'
+import type { KLineData } from '../../common/Data'
+import { getPeriodRange } from '../../common/Period'
+import { formatPrecision, formatValue } from '../../common/utils/format'
+
+import type { Chart } from '../../Chart'
+import type { Indicator, IndicatorTemplate } from '../../component/Indicator'
+
+import { drawRect, type RectAttrs } from '../figure/rect'
+import { drawLine } from '../figure/line'
+
+interface Vp {
+  /**
+   * The start timestamp of the day session, only calculated when the range is `session`
+   */
+  session?: number
+}
+
+/**
+ * `visible` covers the visible data and follows the scrolling and zooming,
+ * `session` draws one profile for each day in the chart timezone,
+ * and an object covers the data between the two timestamps
+ */
+export type VolumeProfileRange = 'visible' | 'session' | { from: number, to: number }
+
+export interface VolumeProfileExtendData {
+  range: VolumeProfileRange
+  /**
+   * The edge the histogram is anchored to
+   */
+  placement: 'left' | 'right'
+  /**
+   * The width of the longest row relative to the width of the pane, or the width of the session
+   */
+  widthRatio: number
+}
+
+interface VolumeProfileRow {
+  up: number
+  down: number
+}
+
+interface VolumeProfile {
+  /**
+   * The data index range, the end is exclusive
+   */
+  from: number
+  to: number
+  low: number
+  rowHeight: number
+  rows: VolumeProfileRow[]
+  maxVolume: number
+  poc: number
+  vah: number
+  val: number
+  /**
+   * The row index range of the value area, both inclusive
+   */
+  valueAreaFrom: number
+  valueAreaTo: number
+}
+
+function calcVolumeProfile (dataList: KLineData[], from: number, to: number, rowCount: number, valueAreaPercent: number): Nullable<VolumeProfile> {
+  if (to <= from) {
+    return null
+  }
+  let high = Number.MIN_SAFE_INTEGER
+  let low = Number.MAX_SAFE_INTEGER
+  for (let i = from; i < to; i++) {
+    high = Math.max(high, dataList[i].high)
+    low = Math.min(low, dataList[i].low)
+  }
+  const count = high > low ? Math.max(1, Math.floor(rowCount)) : 1
+  const rowHeight = (high - low) / count
+  const getRowIndex = (price: number): number => rowHeight > 0 ? Math.min(count - 1, Math.floor((price - low) / rowHeight)) : 0
+  const rows: VolumeProfileRow[] = []
+  for (let i = 0; i < count; i++) {
+    rows.push({ up: 0, down: 0 })
+  }
+  for (let i = from; i < to; i++) {
+    const kLineData = dataList[i]
+    const volume = kLineData.volume ?? 0
+    const key = kLineData.close >= kLineData.open ? 'up' : 'down'
+    if (kLineData.high > kLineData.low && rowHeight > 0) {
+      // The volume is distributed to the rows by the overlap with the range of the data
+      const toRow = getRowIndex(kLineData.high)
+      for (let r = getRowIndex(kLineData.low); r <= toRow; r++) {
+        const overlap = Math.min(kLineData.high, low + (r + 1) * rowHeight) - Math.max(kLineData.low, low + r * rowHeight)
+        rows[r][key] += volume * Math.max(0, overlap) / (kLineData.high - kLineData.low)
+      }
+    } else {
+      rows[getRowIndex(kLineData.close)][key] += volume
+    }
+  }
+  let totalVolume = 0
+  let maxVolume = 0
+  let pocIndex = 0
+  rows.forEach(({ up, down }, i) => {
+    const volume = up + down
+    totalVolume += volume
+    if (volume > maxVolume) {
+      maxVolume = volume
+      pocIndex = i
+    }
+  })
+  // The value area expands from the poc to the adjacent row with more volume
+  const getRowVolume = (index: number): number => rows[index].up + rows[index].down
+  const targetVolume = totalVolume * valueAreaPercent / 100
+  let valueAreaFrom = pocIndex
+  let valueAreaTo = pocIndex
+  let valueAreaVolume = getRowVolume(pocIndex)
+  while (valueAreaVolume < targetVolume && (valueAreaFrom > 0 || valueAreaTo < count - 1)) {
+    const above = valueAreaTo < count - 1 ? getRowVolume(valueAreaTo + 1) : -1
+    const below = valueAreaFrom > 0 ? getRowVolume(valueAreaFrom - 1) : -1
+    if (above >= below) {
+      valueAreaTo++
+      valueAreaVolume += above
+    } else {
+      valueAreaFrom--
+      valueAreaVolume += below
+    }
+  }
+  return {
+    from,
+    to,
+    low,
+    rowHeight,
+    rows,
+    maxVolume,
+    poc: low + (pocIndex + 0.5) * rowHeight,
+    vah: low + (valueAreaTo + 1) * rowHeight,
+    val: low + valueAreaFrom * rowHeight,
+    valueAreaFrom,
+    valueAreaTo
+  }
+}
+
+function calcVolumeProfiles (chart: Chart, indicator: Indicator<Vp, number, VolumeProfileExtendData>): VolumeProfile[] {
+  const dataList = chart.getDataList()
+  const { calcParams: [rowCount, valueAreaPercent], extendData: { range }, result } = indicator
+  const { from, to } = chart.getVisibleRange()
+  const profiles: Array<Nullable<VolumeProfile>> = []
+  if (range === 'visible') {
+    profiles.push(calcVolumeProfile(dataList, from, to, rowCount, valueAreaPercent))
+  } else if (range === 'session') {
+    // The sessions partly visible are also calculated with all the data of the session
+    let start = from
+    while (start < to) {
+      const session = result[start]?.session
+      while (start > 0 && result[start - 1]?.session === session) {
+        start--
+      }
+      let end = start + 1
+      while (end < dataList.length && result[end]?.session === session) {
+        end++
+      }
+      profiles.push(calcVolumeProfile(dataList, start, end, rowCount, valueAreaPercent))
+      start = end
+    }
+  } else {
+    const start = dataList.findIndex(({ timestamp }) => timestamp >= range.from)
+    const end = dataList.findIndex(({ timestamp }) => timestamp > range.to)
+    if (start > -1) {
+      profiles.push(calcVolumeProfile(dataList, start, end > -1 ? end : dataList.length, rowCount, valueAreaPercent))
+    }
+  }
+  return profiles.filter((profile): profile is VolumeProfile => profile !== null)
+}
+
+interface VolumeProfileCache {
+  result: Vp[]
+  from: number
+  to: number
+  profiles: VolumeProfile[]
+}
+
+const profileCaches = new WeakMap<Indicator<Vp, number, VolumeProfileExtendData>, VolumeProfileCache>()
+
+/**
+ * The profiles are only recalculated when the visible range changes or the indicator is recalculated
+ */
+function getVolumeProfiles (chart: Chart, indicator: Indicator<Vp, number, VolumeProfileExtendData>): VolumeProfile[] {
+  const { from, to } = chart.getVisibleRange()
+  const result = indicator.result
+  let cache = profileCaches.get(indicator)
+  if (cache?.result !== result || cache.from !== from || cache.to !== to) {
+    cache = { result, from, to, profiles: calcVolumeProfiles(chart, indicator) }
+    profileCaches.set(indicator, cache)
+  }
+  return cache.profiles
+}
+
+/**
+ * Volume Profile
+ * The volume of each data is distributed to the price rows by the overlap with the high and low,
+ * POC is the row with the most volume,
+ * the value area contains `N2` percent of the volume expanding from POC, VAH and VAL are its high and low
+ */
+const volumeProfile: IndicatorTemplate<Vp, number, VolumeProfileExtendData> = {
+  name: 'VP',
+  shortName: 'VP',
+  series: 'price',
+  calcParams: [24, 70],
+  precision: 2,
+  extendData: { range: 'visible', placement: 'right', widthRatio: 0.3 },
+  figures: [],
+  calc: (dataList, indicator, { dateTimeFormat }) => {
+    if (indicator.extendData.range !== 'session') {
+      return dataList.map(() => ({}))
+    }
+    let sessionStart = 0
+    let sessionEnd: Nullable<number> = null
+    return dataList.map(({ timestamp }) => {
+      if (sessionEnd === null || timestamp >= sessionEnd) {
+        ({ start: sessionStart, end: sessionEnd } = getPeriodRange(dateTimeFormat, timestamp, { type: 'day', span: 1 }))
+      }
+      return { session: sessionStart }
+    })
+  },
+  createTooltipDataSource: ({ chart, indicator, crosshair }) => {
+    const { tooltip, lines } = chart.getStyles().indicator
+    const profiles = getVolumeProfiles(chart, indicator)
+    const dataIndex = crosshair.dataIndex ?? -1
+    const profile = profiles.find(({ from, to }) => dataIndex >= from && dataIndex < to) ?? (profiles.length > 0 ? profiles[profiles.length - 1] : null)
+    const pocColor = formatValue(indicator.styles, 'lines[0].color', lines[0].color) as string
+    const valueAreaColor = formatValue(indicator.styles, 'lines[1].color', lines[1].color) as string
+    const format = (value?: number): string => value !== undefined ? formatPrecision(value, indicator.precision) : tooltip.defaultValue
+    return {
+      name: indicator.shortName,
+      calcParamsText: `(${indicator.calcParams.join(',')})`,
+      features: tooltip.features,
+      legends: [
+        { title: { text: 'POC: ', color: pocColor }, value: { text: format(profile?.poc), color: pocColor } },
+        { title: { text: 'VAH: ', color: valueAreaColor }, value: { text: format(profile?.vah), color: valueAreaColor } },
+        { title: { text: 'VAL: ', color: valueAreaColor }, value: { text: format(profile?.val), color: valueAreaColor } }
+      ]
+    }
+  },
+  draw: ({ ctx, chart, indicator, bounding, xAxis, yAxis }) => {
+    const { bars, lines } = chart.getStyles().indicator
+    const { range, placement, widthRatio } = indicator.extendData
+    const upColor = formatValue(indicator.styles, 'bars[0].upColor', bars[0].upColor) as string
+    const downColor = formatValue(indicator.styles, 'bars[0].downColor', bars[0].downColor) as string
+    const pocStyles = {
+      color: formatValue(indicator.styles, 'lines[0].color', lines[0].color) as string,
+      size: formatValue(indicator.styles, 'lines[0].size', lines[0].size) as number
+    }
+    const valueAreaStyles = {
+      style: 'dashed' as const,
+      dashedValue: [4, 2],
+      color: formatValue(indicator.styles, 'lines[1].color', lines[1].color) as string,
+      size: formatValue(indicator.styles, 'lines[1].size', lines[1].size) as number
+    }
+    getVolumeProfiles(chart, indicator).forEach(profile => {
+      const dataLeft = xAxis.convertToPixel(profile.from)
+      const dataRight = xAxis.convertToPixel(profile.to - 1)
+      // The histograms of the sessions are inside the sessions, the others are anchored to the pane
+      const histogramLeft = range === 'session' ? dataLeft : 0
+      const histogramRight = range === 'session' ? dataRight : bounding.width
+      const histogramWidth = (histogramRight - histogramLeft) * widthRatio
+      const valueAreaRects: RectAttrs[][] = [[], []]
+      const otherRects: RectAttrs[][] = [[], []]
+      profile.rows.forEach(({ up, down }, i) => {
+        const y1 = yAxis.convertToPixel(profile.low + i * profile.rowHeight)
+        const y2 = yAxis.convertToPixel(profile.low + (i + 1) * profile.rowHeight)
+        const y = Math.min(y1, y2)
+        const height = Math.max(1, Math.abs(y2 - y1) - 1)
+        const upWidth = profile.maxVolume > 0 ? up / profile.maxVolume * histogramWidth : 0
+        const downWidth = profile.maxVolume > 0 ? down / profile.maxVolume * histogramWidth : 0
+        const rects = i >= profile.valueAreaFrom && i <= profile.valueAreaTo ? valueAreaRects : otherRects
+        if (placement === 'left') {
+          rects[0].push({ x: histogramLeft, y, width: upWidth, height })
+          rects[1].push({ x: histogramLeft + upWidth, y, width: downWidth, height })
+        } else {
+          rects[0].push({ x: histogramRight - upWidth, y, width: upWidth, height })
+          rects[1].push({ x: histogramRight - upWidth - downWidth, y, width: downWidth, height })
+        }
+      })
+      drawRect(ctx, valueAreaRects[0], { style: 'fill', color: upColor })
+      drawRect(ctx, valueAreaRects[1], { style: 'fill', color: downColor })
+      ctx.globalAlpha = 0.4
+      drawRect(ctx, otherRects[0], { style: 'fill', color: upColor })
+      drawRect(ctx, otherRects[1], { style: 'fill', color: downColor })
+      ctx.globalAlpha = 1
+
+      const lineLeft = range === 'visible' ? 0 : dataLeft
+      const lineRight = range === 'visible' ? bounding.width : dataRight
+      const createLine = (value: number): { coordinates: Array<{ x: number, y: number }> } => {
+        const y = yAxis.convertToPixel(value)
+        return { coordinates: [{ x: lineLeft, y }, { x: lineRight, y }] }
+      }
+      drawLine(ctx, createLine(profile.poc), pocStyles)
+      drawLine(ctx, [createLine(profile.vah), createLine(profile.val)], valueAreaStyles)
+    })
+    return false
+  }
+}
+
+export default volumeProfile
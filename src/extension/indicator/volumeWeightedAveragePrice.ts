@@ -0,0 +1,104 @@
+/**
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+
+ * http://www.apache.org/licenses/LICENSE-2.0
+
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type Nullable from '../../common/Nullable'
+import { getPeriodRange } from '../../common/Period'
+import { isNumber } from '../../common/utils/typeChecks'
+
+import type { IndicatorFigure, IndicatorTemplate } from '../../component/Indicator'
+
+interface Vwap {
+  vwap?: number
+  [key: string]: number | undefined
+}
+
+/**
+ * The accumulation restarts at the start of each day, week or month in the chart timezone,
+ * or starts from the data at the anchor timestamp
+ */
+export type VwapAnchor = 'day' | 'week' | 'month' | number
+
+export interface VwapExtendData {
+  anchor: VwapAnchor
+}
+
+/**
+ * The bands are `vwap ± multiplier * standard deviation`, one pair for each multiplier of the calc params
+ */
+function createFigures (params: number[]): Array<IndicatorFigure<Vwap>> {
+  const figures: Array<IndicatorFigure<Vwap>> = [{ key: 'vwap', title: 'VWAP: ', type: 'line' }]
+  params.forEach((_, i) => {
+    figures.push(
+      { key: `up${i + 1}`, title: `UP${i + 1}: `, type: 'line' },
+      { key: `dn${i + 1}`, title: `DN${i + 1}: `, type: 'line' }
+    )
+  })
+  return figures
+}
+
+/**
+ * VWAP
+ * TP = (HIGH + LOW + CLOSE) / 3
+ * VWAP = SUM(TP * VOLUME) / SUM(VOLUME)
+ * SD = SQRT(SUM(TP * TP * VOLUME) / SUM(VOLUME) - VWAP * VWAP)
+ */
+const volumeWeightedAveragePrice: IndicatorTemplate<Vwap, number, VwapExtendData> = {
+  name: 'VWAP',
+  shortName: 'VWAP',
+  series: 'price',
+  calcParams: [],
+  precision: 2,
+  extendData: { anchor: 'day' },
+  figures: createFigures([]),
+  regenerateFigures: (params) => createFigures(params),
+  calc: (dataList, indicator, { dateTimeFormat }) => {
+    const { calcParams: params, extendData: { anchor } } = indicator
+    const periodType = anchor === 'week' || anchor === 'month' ? anchor : 'day'
+    let periodEnd: Nullable<number> = null
+    let volumeSum = 0
+    let priceVolumeSum = 0
+    let squarePriceVolumeSum = 0
+    return dataList.map(kLineData => {
+      const vwap: Vwap = {}
+      const { timestamp } = kLineData
+      if (isNumber(anchor)) {
+        if (timestamp < anchor) {
+          return vwap
+        }
+      } else if (periodEnd === null || timestamp >= periodEnd) {
+        periodEnd = getPeriodRange(dateTimeFormat, timestamp, { type: periodType, span: 1 }).end
+        volumeSum = 0
+        priceVolumeSum = 0
+        squarePriceVolumeSum = 0
+      }
+      const price = (kLineData.high + kLineData.low + kLineData.close) / 3
+      const volume = kLineData.volume ?? 0
+      volumeSum += volume
+      priceVolumeSum += price * volume
+      squarePriceVolumeSum += price * price * volume
+      if (volumeSum !== 0) {
+        const value = priceVolumeSum / volumeSum
+        const sd = Math.sqrt(Math.max(0, squarePriceVolumeSum / volumeSum - value * value))
+        vwap.vwap = value
+        params.forEach((multiplier, i) => {
+          vwap[`up${i + 1}`] = value + multiplier * sd
+          vwap[`dn${i + 1}`] = value - multiplier * sd
+        })
+      }
+      return vwap
+    })
+  }
+}
+
+export default volumeWeightedAveragePrice
@@ -31,6 +31,8 @@ const williamsR: IndicatorTemplate<Wr, number> = {
   name: 'WR',
   shortName: 'WR',
   calcParams: [6, 10, 14],
+  levels: [{ value: -80 }, { value: -20 }],
+  bands: [{ from: -80, to: -20 }],
   figures: [
     { key: 'wr1', title: 'WR1: ', type: 'line' },
     { key: 'wr2', title: 'WR2: ', type: 'line' },
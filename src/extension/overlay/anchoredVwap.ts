@@ -0,0 +1,71 @@
+/**
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+
+ * http://www.apache.org/licenses/LICENSE-2.0
+
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { isNumber } from '../../common/utils/typeChecks'
+
+import type { Overlay, OverlayTemplate } from '../../component/Overlay'
+
+/**
+ * The id of the indicator created by the overlay
+ */
+function getIndicatorId (overlay: Overlay): string {
+  return `${overlay.id}_vwap`
+}
+
+/**
+ * Create a `VWAP` anchored at the clicked data, the overlay is kept as the handle to move the anchor
+ */
+const anchoredVwap: OverlayTemplate = {
+  name: 'anchoredVwap',
+  totalStep: 2,
+  needDefaultPointFigure: true,
+  needDefaultXAxisFigure: true,
+  styles: {
+    line: { style: 'dashed' }
+  },
+  createPointFigures: ({ coordinates, bounding }) => [
+    {
+      type: 'line',
+      attrs: {
+        coordinates: [
+          {
+            x: coordinates[0].x,
+            y: 0
+          }, {
+            x: coordinates[0].x,
+            y: bounding.height
+          }
+        ]
+      },
+      ignoreEvent: true
+    }
+  ],
+  onDrawEnd: ({ chart, overlay }) => {
+    const anchor = overlay.points[0].timestamp
+    if (isNumber(anchor)) {
+      chart.createIndicator({ id: getIndicatorId(overlay), name: 'VWAP', extendData: { anchor } }, true, { id: overlay.paneId })
+    }
+  },
+  onPressedMoveEnd: ({ chart, overlay }) => {
+    const anchor = overlay.points[0].timestamp
+    if (isNumber(anchor)) {
+      chart.overrideIndicator({ name: 'VWAP', id: getIndicatorId(overlay), extendData: { anchor } })
+    }
+  },
+  onRemoved: ({ chart, overlay }) => {
+    chart.removeIndicator({ id: getIndicatorId(overlay) })
+  }
+}
+
+export default anchoredVwap
@@ -0,0 +1,75 @@
+/**
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+
+ * http://www.apache.org/licenses/LICENSE-2.0
+
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type Coordinate from '../../common/Coordinate'
+
+import type { OverlayCreateFiguresCallbackParams, OverlayFigure, OverlayTemplate } from '../../component/Overlay'
+
+import { getFibonacciLevels, getFibonacciLevelStyles } from './fibonacciLine'
+import { getRayLine } from './rayLine'
+
+/**
+ * Create the median line from the origin through the middle of the second and third points,
+ * and the parallel lines at the levels, the level `1` lines pass through the second and third points
+ */
+export function createPitchforkFigures (params: OverlayCreateFiguresCallbackParams<unknown>, origin: Coordinate): OverlayFigure[] {
+  const { overlay, coordinates, bounding } = params
+  if (coordinates.length < 3) {
+    return [
+      {
+        type: 'line',
+        attrs: { coordinates }
+      }
+    ]
+  }
+  const [, point2, point3] = coordinates
+  const middle = { x: (point2.x + point3.x) / 2, y: (point2.y + point3.y) / 2 }
+  const xDif = middle.x - origin.x
+  const yDif = middle.y - origin.y
+  const figures: OverlayFigure[] = [
+    {
+      type: 'line',
+      attrs: { coordinates: [point2, point3] }
+    }
+  ]
+  if (xDif !== 0 || yDif !== 0) {
+    getFibonacciLevels(overlay, [0, 1]).forEach(level => {
+      const { value } = level
+      const { line } = getFibonacciLevelStyles(params, level)
+      if (value === 0) {
+        figures.push({ type: 'line', attrs: getRayLine([origin, middle], bounding), styles: line })
+      } else {
+        [point2, point3].forEach(point => {
+          const start = { x: middle.x + (point.x - middle.x) * value, y: middle.y + (point.y - middle.y) * value }
+          figures.push({ type: 'line', attrs: getRayLine([start, { x: start.x + xDif, y: start.y + yDif }], bounding), styles: line })
+        })
+      }
+    })
+  }
+  return figures
+}
+
+/**
+ * The handle is the first point, the second and third points are the reaction highs and lows
+ */
+const andrewsPitchfork: OverlayTemplate = {
+  name: 'andrewsPitchfork',
+  totalStep: 4,
+  needDefaultPointFigure: true,
+  needDefaultXAxisFigure: true,
+  needDefaultYAxisFigure: true,
+  createPointFigures: (params) => createPitchforkFigures(params, params.coordinates[0])
+}
+
+export default andrewsPitchfork
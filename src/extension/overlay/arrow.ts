@@ -0,0 +1,48 @@
+/**
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+
+ * http://www.apache.org/licenses/LICENSE-2.0
+
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { OverlayTemplate } from '../../component/Overlay'
+
+const ARROW_HEAD_LENGTH = 12
+const ARROW_HEAD_ANGLE = Math.PI / 6
+
+const arrow: OverlayTemplate = {
+  name: 'arrow',
+  totalStep: 3,
+  needDefaultPointFigure: true,
+  needDefaultXAxisFigure: true,
+  needDefaultYAxisFigure: true,
+  createPointFigures: ({ coordinates }) => {
+    if (coordinates.length > 1) {
+      const [start, end] = coordinates
+      const angle = Math.atan2(end.y - start.y, end.x - start.x)
+      // The head is drawn with lines, so it has the same styles as the shaft
+      const head = [angle - ARROW_HEAD_ANGLE, angle + ARROW_HEAD_ANGLE].map(a => ({
+        coordinates: [
+          end,
+          { x: end.x - ARROW_HEAD_LENGTH * Math.cos(a), y: end.y - ARROW_HEAD_LENGTH * Math.sin(a) }
+        ]
+      }))
+      return [
+        {
+          type: 'line',
+          attrs: [{ coordinates: [start, end] }, ...head]
+        }
+      ]
+    }
+    return []
+  }
+}
+
+export default arrow
@@ -0,0 +1,61 @@
+/**
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+
+ * http://www.apache.org/licenses/LICENSE-2.0
+
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type Nullable from '../../common/Nullable'
+import { isNumber, isString } from '../../common/utils/typeChecks'
+import { colorToRgba } from '../../common/utils/color'
+
+import type { OverlayCreateFiguresCallback, OverlayTemplate } from '../../component/Overlay'
+
+export interface BrushExtendData {
+  /**
+   * The opacity of the stroke, from 0 to 1
+   */
+  opacity?: number
+}
+
+/**
+ * The stroke through all the points, the width is the size of the line style
+ */
+export const createBrushFigures: OverlayCreateFiguresCallback<unknown> = ({ chart, overlay, coordinates }) => {
+  if (coordinates.length > 1) {
+    const opacity = (overlay.extendData as Nullable<BrushExtendData>)?.opacity
+    let color = overlay.styles?.line?.color ?? chart.getStyles().overlay.line.color
+    if (isNumber(opacity) && isString(color)) {
+      color = colorToRgba(color, opacity)
+    }
+    return [
+      {
+        type: 'line',
+        attrs: { coordinates },
+        styles: { color }
+      }
+    ]
+  }
+  return []
+}
+
+/**
+ * Freehand stroke drawn by dragging, the points are captured continuously and simplified
+ */
+const brush: OverlayTemplate = {
+  name: 'brush',
+  drawMode: 'drag',
+  styles: {
+    line: { size: 2, smooth: true }
+  },
+  createPointFigures: createBrushFigures
+}
+
+export default brush
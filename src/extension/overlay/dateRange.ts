@@ -0,0 +1,85 @@
+/**
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+
+ * http://www.apache.org/licenses/LICENSE-2.0
+
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { isNumber } from '../../common/utils/typeChecks'
+import { formatPrecision } from '../../common/utils/format'
+
+import type { OverlayTemplate } from '../../component/Overlay'
+
+import { i18n } from '../i18n'
+
+import { createMeasureFigures, getMeasureBarCount } from './priceRange'
+
+const DURATION_UNITS: Array<[string, number]> = [
+  ['d', 24 * 60 * 60 * 1000],
+  ['h', 60 * 60 * 1000],
+  ['m', 60 * 1000],
+  ['s', 1000]
+]
+
+/**
+ * Format the duration with the two largest units, such as `3d 4h`
+ */
+function formatDuration (duration: number): string {
+  const parts: string[] = []
+  let rest = Math.abs(duration)
+  DURATION_UNITS.forEach(([unit, size]) => {
+    const count = Math.floor(rest / size)
+    rest -= count * size
+    if (count > 0) {
+      parts.push(`${count}${unit}`)
+    }
+  })
+  return parts.length > 0 ? parts.slice(0, 2).join(' ') : '0s'
+}
+
+/**
+ * Measure the bar count, the elapsed time and the volume between the two points
+ */
+const dateRange: OverlayTemplate = {
+  name: 'dateRange',
+  totalStep: 3,
+  needDefaultPointFigure: true,
+  needDefaultXAxisFigure: true,
+  needDefaultYAxisFigure: true,
+  createPointFigures: (params) => {
+    const { chart, overlay, coordinates, xAxis } = params
+    if (coordinates.length > 1 && xAxis !== null) {
+      const points = overlay.points
+      const dataList = chart.getDataList()
+      const startDataIndex = xAxis.convertFromPixel(coordinates[0].x)
+      const endDataIndex = xAxis.convertFromPixel(coordinates[1].x)
+      let volume = 0
+      const from = Math.max(Math.min(startDataIndex, endDataIndex), 0)
+      const to = Math.min(Math.max(startDataIndex, endDataIndex), dataList.length - 1)
+      for (let i = from; i <= to; i++) {
+        volume += dataList[i].volume ?? 0
+      }
+      const locale = chart.getLocale()
+      const texts = [`${i18n('bars', locale)}${getMeasureBarCount(xAxis, coordinates)}`]
+      const startTimestamp = points[0].timestamp
+      const endTimestamp = points[1].timestamp
+      if (isNumber(startTimestamp) && isNumber(endTimestamp)) {
+        texts.push(`${i18n('time', locale)}${formatDuration(endTimestamp - startTimestamp)}`)
+      }
+      texts.push(`${i18n('volume', locale)}${chart.getDecimalFold().format(chart.getThousandsSeparator().format(
+        chart.getFormatter().formatBigNumber(formatPrecision(volume, chart.getPrecision().volume))
+      ))}`)
+      return createMeasureFigures(params, 'horizontal', endDataIndex >= startDataIndex, texts.join(', '))
+    }
+    return []
+  }
+}
+
+export default dateRange
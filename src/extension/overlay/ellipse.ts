@@ -0,0 +1,59 @@
+/**
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+
+ * http://www.apache.org/licenses/LICENSE-2.0
+
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type Coordinate from '../../common/Coordinate'
+
+import type { OverlayTemplate } from '../../component/Overlay'
+
+import { getShapeFillColor } from './triangle'
+
+const ELLIPSE_SEGMENT_COUNT = 72
+
+/**
+ * The ellipse is drawn as a polygon, so that the inside can be hit
+ */
+const ellipse: OverlayTemplate = {
+  name: 'ellipse',
+  totalStep: 3,
+  needDefaultPointFigure: true,
+  needDefaultXAxisFigure: true,
+  needDefaultYAxisFigure: true,
+  styles: {
+    polygon: { style: 'stroke_fill' }
+  },
+  createPointFigures: ({ chart, overlay, coordinates }) => {
+    if (coordinates.length > 1) {
+      const [start, end] = coordinates
+      const x = (start.x + end.x) / 2
+      const y = (start.y + end.y) / 2
+      const rx = Math.abs(end.x - start.x) / 2
+      const ry = Math.abs(end.y - start.y) / 2
+      const ellipseCoordinates: Coordinate[] = []
+      for (let i = 0; i < ELLIPSE_SEGMENT_COUNT; i++) {
+        const angle = Math.PI * 2 * i / ELLIPSE_SEGMENT_COUNT
+        ellipseCoordinates.push({ x: x + rx * Math.cos(angle), y: y + ry * Math.sin(angle) })
+      }
+      return [
+        {
+          type: 'polygon',
+          attrs: { coordinates: ellipseCoordinates },
+          styles: { color: getShapeFillColor({ chart, overlay }) }
+        }
+      ]
+    }
+    return []
+  }
+}
+
+export default ellipse
@@ -0,0 +1,120 @@
+/**
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+
+ * http://www.apache.org/licenses/LICENSE-2.0
+
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type Coordinate from '../../common/Coordinate'
+import { getDistance } from '../../common/Coordinate'
+
+import type { OverlayCreateFiguresCallbackParams, OverlayFigure, OverlayTemplate } from '../../component/Overlay'
+
+import {
+  formatFibonacciPercent, getFibonacciArcCoordinates, getFibonacciExtendData,
+  getFibonacciLevels, getFibonacciLevelStyles, type FibonacciLevel
+} from './fibonacciLine'
+
+const FIBONACCI_ARC_SEGMENT_COUNT = 72
+
+/**
+ * Create the arcs of the levels around the center, the radius of the level is `radius * level`,
+ * the label is at the middle of the arc
+ */
+export function createFibonacciRingFigures (
+  params: OverlayCreateFiguresCallbackParams<unknown>,
+  levels: FibonacciLevel[],
+  center: Coordinate,
+  radius: number,
+  startAngle: number,
+  endAngle: number
+): OverlayFigure[] {
+  const { fill = false } = getFibonacciExtendData(params.overlay)
+  const middleAngle = (startAngle + endAngle) / 2
+  // The segment count is in proportion to the angle, so that the full circle is as smooth as the half one
+  const segmentCount = Math.ceil(FIBONACCI_ARC_SEGMENT_COUNT * Math.abs(endAngle - startAngle) / Math.PI)
+  const bandFigures: OverlayFigure[] = []
+  const levelFigures: OverlayFigure[] = []
+  let prevCoordinates: Coordinate[] = []
+  levels.forEach(level => {
+    const styles = getFibonacciLevelStyles(params, level)
+    const r = radius * Math.abs(level.value)
+    const coordinates = getFibonacciArcCoordinates(center, r, startAngle, endAngle, segmentCount)
+    if (fill && prevCoordinates.length > 0) {
+      bandFigures.push({
+        type: 'polygon',
+        attrs: { coordinates: coordinates.concat(prevCoordinates.slice().reverse()) },
+        styles: styles.band,
+        ignoreEvent: true
+      })
+    }
+    prevCoordinates = coordinates
+    if (r > 0) {
+      levelFigures.push(
+        {
+          type: 'line',
+          attrs: { coordinates },
+          styles: styles.line
+        },
+        {
+          type: 'text',
+          ignoreEvent: true,
+          attrs: {
+            x: center.x + r * Math.cos(middleAngle),
+            y: center.y + r * Math.sin(middleAngle),
+            text: formatFibonacciPercent(level),
+            align: 'center',
+            baseline: 'middle'
+          },
+          styles: styles.text
+        }
+      )
+    }
+  })
+  return bandFigures.concat(levelFigures)
+}
+
+/**
+ * Half circles around the second point, the radius of the level `1` is the distance between the two points
+ */
+const fibonacciArcs: OverlayTemplate = {
+  name: 'fibonacciArcs',
+  totalStep: 3,
+  needDefaultPointFigure: true,
+  needDefaultXAxisFigure: true,
+  needDefaultYAxisFigure: true,
+  createPointFigures: (params) => {
+    const { overlay, coordinates } = params
+    if (coordinates.length > 1) {
+      const [start, center] = coordinates
+      const radius = getDistance(start, center)
+      // The arcs open towards the first point
+      const startAngle = start.y < center.y ? Math.PI : 0
+      return [
+        {
+          type: 'line',
+          attrs: { coordinates },
+          styles: { style: 'dashed' }
+        },
+        ...createFibonacciRingFigures(
+          params,
+          getFibonacciLevels(overlay, [0.236, 0.382, 0.5, 0.618, 0.786, 1]),
+          center,
+          radius,
+          startAngle,
+          startAngle + Math.PI
+        )
+      ]
+    }
+    return []
+  }
+}
+
+export default fibonacciArcs
@@ -0,0 +1,51 @@
+/**
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+
+ * http://www.apache.org/licenses/LICENSE-2.0
+
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { getDistance } from '../../common/Coordinate'
+
+import type { OverlayTemplate } from '../../component/Overlay'
+
+import { getFibonacciLevels } from './fibonacciLine'
+import { createFibonacciRingFigures } from './fibonacciArcs'
+
+/**
+ * Concentric circles, the two points are the diameter of the level `1` circle
+ */
+const fibonacciCircles: OverlayTemplate = {
+  name: 'fibonacciCircles',
+  totalStep: 3,
+  needDefaultPointFigure: true,
+  needDefaultXAxisFigure: true,
+  needDefaultYAxisFigure: true,
+  createPointFigures: (params) => {
+    const { overlay, coordinates } = params
+    if (coordinates.length > 1) {
+      const [start, end] = coordinates
+      const center = { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 }
+      const radius = getDistance(start, end) / 2
+      // Start from the bottom, so that the labels are at the top
+      return createFibonacciRingFigures(
+        params,
+        getFibonacciLevels(overlay, [0.382, 0.618, 1, 1.618, 2.618]),
+        center,
+        radius,
+        Math.PI / 2,
+        Math.PI * 5 / 2
+      )
+    }
+    return []
+  }
+}
+
+export default fibonacciCircles
@@ -0,0 +1,56 @@
+/**
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+
+ * http://www.apache.org/licenses/LICENSE-2.0
+
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { isNumber } from '../../common/utils/typeChecks'
+
+import type { OverlayFigure, OverlayTemplate } from '../../component/Overlay'
+
+import { createFibonacciPriceLevelFigures, getFibonacciLevels, FIBONACCI_EXTENSION_LEVELS, FIBONACCI_RETRACEMENT_LEVELS } from './fibonacciLine'
+
+/**
+ * Trend based extension, the first two points are the trend and the levels are projected from the third point
+ */
+const fibonacciExtension: OverlayTemplate = {
+  name: 'fibonacciExtension',
+  totalStep: 4,
+  needDefaultPointFigure: true,
+  needDefaultXAxisFigure: true,
+  needDefaultYAxisFigure: true,
+  createPointFigures: (params) => {
+    const { overlay, coordinates } = params
+    const points = overlay.points
+    const figures: OverlayFigure[] = []
+    if (coordinates.length > 1) {
+      figures.push({
+        type: 'line',
+        attrs: { coordinates },
+        styles: { style: 'dashed' }
+      })
+    }
+    if (coordinates.length > 2 && isNumber(points[0].value) && isNumber(points[1].value) && isNumber(points[2].value)) {
+      return figures.concat(
+        createFibonacciPriceLevelFigures(
+          params,
+          getFibonacciLevels(overlay, FIBONACCI_RETRACEMENT_LEVELS.concat(FIBONACCI_EXTENSION_LEVELS)),
+          { value: points[2].value, y: coordinates[2].y },
+          { value: points[1].value - points[0].value, y: coordinates[1].y - coordinates[0].y },
+          'right'
+        )
+      )
+    }
+    return figures
+  }
+}
+
+export default fibonacciExtension
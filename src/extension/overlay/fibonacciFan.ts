@@ -0,0 +1,82 @@
+/**
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+
+ * http://www.apache.org/licenses/LICENSE-2.0
+
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type Coordinate from '../../common/Coordinate'
+import { getDistance } from '../../common/Coordinate'
+
+import type { OverlayFigure, OverlayTemplate } from '../../component/Overlay'
+
+import { formatFibonacciPercent, getFibonacciExtendData, getFibonacciLevels, getFibonacciLevelStyles, FIBONACCI_RETRACEMENT_LEVELS } from './fibonacciLine'
+
+/**
+ * Rays from the first point through the retracement levels at the second point
+ */
+const fibonacciFan: OverlayTemplate = {
+  name: 'fibonacciFan',
+  totalStep: 3,
+  needDefaultPointFigure: true,
+  needDefaultXAxisFigure: true,
+  needDefaultYAxisFigure: true,
+  createPointFigures: (params) => {
+    const { overlay, coordinates, bounding } = params
+    if (coordinates.length > 1) {
+      const { fill = false } = getFibonacciExtendData(overlay)
+      const levels = getFibonacciLevels(overlay, FIBONACCI_RETRACEMENT_LEVELS)
+      const [origin, end] = coordinates
+      // Long enough to reach the pane edge wherever the origin is
+      const rayLength = bounding.width + bounding.height + Math.abs(origin.x) + Math.abs(origin.y)
+      const bandFigures: OverlayFigure[] = []
+      const levelFigures: OverlayFigure[] = []
+      let prevFar: Coordinate | null = null
+      levels.forEach(level => {
+        const styles = getFibonacciLevelStyles(params, level)
+        const target = { x: end.x, y: end.y + (origin.y - end.y) * level.value }
+        const distance = getDistance(origin, target)
+        if (distance === 0) {
+          return
+        }
+        const far = {
+          x: origin.x + (target.x - origin.x) * rayLength / distance,
+          y: origin.y + (target.y - origin.y) * rayLength / distance
+        }
+        if (fill && prevFar !== null) {
+          bandFigures.push({
+            type: 'polygon',
+            attrs: { coordinates: [origin, prevFar, far] },
+            styles: styles.band,
+            ignoreEvent: true
+          })
+        }
+        prevFar = far
+        levelFigures.push(
+          {
+            type: 'line',
+            attrs: { coordinates: [origin, far] },
+            styles: styles.line
+          },
+          {
+            type: 'text',
+            ignoreEvent: true,
+            attrs: { x: target.x, y: target.y, text: formatFibonacciPercent(level), baseline: 'bottom' },
+            styles: styles.text
+          }
+        )
+      })
+      return bandFigures.concat(levelFigures)
+    }
+    return []
+  }
+}
+
+export default fibonacciFan
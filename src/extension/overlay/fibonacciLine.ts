@@ -12,62 +12,168 @@
  * limitations under the License.
  */
 
-import { isNumber } from '../../common/utils/typeChecks'
+import type Nullable from '../../common/Nullable'
+import type Coordinate from '../../common/Coordinate'
+import { isArray, isNumber, isValid } from '../../common/utils/typeChecks'
+import { colorToRgba } from '../../common/utils/color'
 
-import type { OverlayTemplate } from '../../component/Overlay'
+import type { OverlayCreateFiguresCallbackParams, OverlayFigure, OverlayTemplate } from '../../component/Overlay'
 
-import type { LineAttrs } from '../figure/line'
-import type { TextAttrs } from '../figure/text'
+export interface FibonacciLevel {
+  value: number
+  /**
+   * The color of the level, the line style color is used when it is not set
+   */
+  color?: string
+  visible?: boolean
+}
+
+export type FibonacciLineExtend = 'none' | 'left' | 'right' | 'both'
+
+export interface FibonacciExtendData {
+  /**
+   * The levels, the default levels of the tool are used when it is not set
+   */
+  levels?: FibonacciLevel[]
+  /**
+   * Whether to fill the bands between the adjacent levels
+   */
+  fill?: boolean
+  /**
+   * The direction the horizontal level lines extend to from the points
+   */
+  extend?: FibonacciLineExtend
+}
+
+export const FIBONACCI_RETRACEMENT_LEVELS = [1, 0.786, 0.618, 0.5, 0.382, 0.236, 0]
+
+export const FIBONACCI_EXTENSION_LEVELS = [1.272, 1.618, 2.618]
+
+const FIBONACCI_BAND_OPACITY = 0.15
+
+export function getFibonacciExtendData (overlay: { extendData: unknown }): FibonacciExtendData {
+  return (overlay.extendData as Nullable<FibonacciExtendData>) ?? {}
+}
+
+/**
+ * Get the visible levels sorted by value
+ */
+export function getFibonacciLevels (overlay: { extendData: unknown }, defaultLevels: number[]): FibonacciLevel[] {
+  const { levels } = getFibonacciExtendData(overlay)
+  const result = isArray(levels) ? levels.filter(level => isNumber(level.value) && level.visible !== false) : defaultLevels.map(value => ({ value }))
+  return result.sort((a, b) => a.value - b.value)
+}
+
+export function formatFibonacciPercent (level: FibonacciLevel): string {
+  return `${(level.value * 100).toFixed(1)}%`
+}
+
+/**
+ * Get the styles of the level figures, the band color is the level color with opacity
+ */
+export function getFibonacciLevelStyles (
+  { chart, overlay }: Pick<OverlayCreateFiguresCallbackParams<unknown>, 'chart' | 'overlay'>,
+  level: FibonacciLevel
+): { line: { color?: string }, text: { backgroundColor?: string, borderColor?: string }, band: { style: 'fill', color: string } } {
+  const color = level.color
+  const bandColor = color ?? overlay.styles?.line?.color ?? chart.getStyles().overlay.line.color
+  const band = colorToRgba(bandColor, FIBONACCI_BAND_OPACITY)
+  if (isValid(color)) {
+    return { line: { color }, text: { backgroundColor: color, borderColor: color }, band: { style: 'fill', color: band } }
+  }
+  return { line: {}, text: {}, band: { style: 'fill', color: band } }
+}
+
+/**
+ * Create the horizontal level lines, the level value is `origin + diff * level`
+ */
+export function createFibonacciPriceLevelFigures (
+  params: OverlayCreateFiguresCallbackParams<unknown>,
+  levels: FibonacciLevel[],
+  origin: { value: number, y: number },
+  diff: { value: number, y: number },
+  defaultExtend: FibonacciLineExtend
+): OverlayFigure[] {
+  const { chart, overlay, coordinates, bounding, yAxis } = params
+  const { fill = false, extend = defaultExtend } = getFibonacciExtendData(overlay)
+  let precision = 0
+  if (yAxis?.isInCandle() ?? true) {
+    precision = chart.getPrecision().price
+  } else {
+    const indicators = chart.getIndicators({ paneId: overlay.paneId })
+    indicators.forEach(indicator => {
+      precision = Math.max(precision, indicator.precision)
+    })
+  }
+  const xs = coordinates.map(({ x }) => x)
+  const startX = extend === 'left' || extend === 'both' ? 0 : Math.min(...xs)
+  const endX = extend === 'right' || extend === 'both' ? bounding.width : Math.max(...xs)
 
+  // The bands are drawn first, so that the lines are not covered
+  const bandFigures: OverlayFigure[] = []
+  const levelFigures: OverlayFigure[] = []
+  levels.forEach((level, index) => {
+    const styles = getFibonacciLevelStyles(params, level)
+    const y = origin.y + diff.y * level.value
+    if (fill && index > 0) {
+      const prevY = origin.y + diff.y * levels[index - 1].value
+      bandFigures.push({
+        type: 'rect',
+        attrs: { x: startX, y: Math.min(y, prevY), width: endX - startX, height: Math.abs(y - prevY) },
+        styles: styles.band,
+        ignoreEvent: true
+      })
+    }
+    const value = chart.getDecimalFold().format(chart.getThousandsSeparator().format((origin.value + diff.value * level.value).toFixed(precision)))
+    levelFigures.push(
+      {
+        type: 'line',
+        attrs: { coordinates: [{ x: startX, y }, { x: endX, y }] },
+        styles: styles.line
+      },
+      {
+        type: 'text',
+        ignoreEvent: true,
+        attrs: { x: startX, y, text: `${value} (${formatFibonacciPercent(level)})`, baseline: 'bottom' },
+        styles: styles.text
+      }
+    )
+  })
+  return bandFigures.concat(levelFigures)
+}
+
+/**
+ * Get the coordinates on the arc, the arc is approximated by the line segments
+ */
+export function getFibonacciArcCoordinates (center: Coordinate, r: number, startAngle: number, endAngle: number, segmentCount: number): Coordinate[] {
+  const coordinates: Coordinate[] = []
+  for (let i = 0; i <= segmentCount; i++) {
+    const angle = startAngle + (endAngle - startAngle) * i / segmentCount
+    coordinates.push({ x: center.x + r * Math.cos(angle), y: center.y + r * Math.sin(angle) })
+  }
+  return coordinates
+}
+
+/**
+ * Retracement levels between two points, the level `0` is at the second point and the level `1` is at the first point
+ */
 const fibonacciLine: OverlayTemplate = {
   name: 'fibonacciLine',
   totalStep: 3,
   needDefaultPointFigure: true,
   needDefaultXAxisFigure: true,
   needDefaultYAxisFigure: true,
-  createPointFigures: ({ chart, coordinates, bounding, overlay, yAxis }) => {
+  createPointFigures: (params) => {
+    const { overlay, coordinates } = params
     const points = overlay.points
-
-    if (coordinates.length > 0) {
-      let precision = 0
-      if (yAxis?.isInCandle() ?? true) {
-        precision = chart.getPrecision().price
-      } else {
-        const indicators = chart.getIndicators({ paneId: overlay.paneId })
-        indicators.forEach(indicator => {
-          precision = Math.max(precision, indicator.precision)
-        })
-      }
-      const lines: LineAttrs[] = []
-      const texts: TextAttrs[] = []
-      const startX = 0
-      const endX = bounding.width
-      if (coordinates.length > 1 && isNumber(points[0].value) && isNumber(points[1].value)) {
-        const percents = [1, 0.786, 0.618, 0.5, 0.382, 0.236, 0]
-        const yDif = coordinates[0].y - coordinates[1].y
-        const valueDif = points[0].value - points[1].value
-        percents.forEach(percent => {
-          const y = coordinates[1].y + yDif * percent
-          const value = chart.getDecimalFold().format(chart.getThousandsSeparator().format(((points[1].value ?? 0) + valueDif * percent).toFixed(precision)))
-          lines.push({ coordinates: [{ x: startX, y }, { x: endX, y }] })
-          texts.push({
-            x: startX,
-            y,
-            text: `${value} (${(percent * 100).toFixed(1)}%)`,
-            baseline: 'bottom'
-          })
-        })
-      }
-      return [
-        {
-          type: 'line',
-          attrs: lines
-        }, {
-          type: 'text',
-          isCheckEvent: false,
-          attrs: texts
-        }
-      ]
+    if (coordinates.length > 1 && isNumber(points[0].value) && isNumber(points[1].value)) {
+      return createFibonacciPriceLevelFigures(
+        params,
+        getFibonacciLevels(overlay, FIBONACCI_RETRACEMENT_LEVELS),
+        { value: points[1].value, y: coordinates[1].y },
+        { value: points[0].value - points[1].value, y: coordinates[0].y - coordinates[1].y },
+        'both'
+      )
     }
     return []
   }
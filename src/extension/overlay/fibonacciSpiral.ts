@@ -0,0 +1,69 @@
+/**
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+
+ * http://www.apache.org/licenses/LICENSE-2.0
+
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type Coordinate from '../../common/Coordinate'
+import { getDistance } from '../../common/Coordinate'
+
+import type { OverlayTemplate } from '../../component/Overlay'
+
+const GOLDEN_RATIO = (1 + Math.sqrt(5)) / 2
+
+const FIBONACCI_SPIRAL_ANGLE_STEP = Math.PI / 36
+
+/**
+ * Golden spiral around the first point through the second point,
+ * the radius grows by the golden ratio every quarter turn
+ */
+const fibonacciSpiral: OverlayTemplate = {
+  name: 'fibonacciSpiral',
+  totalStep: 3,
+  needDefaultPointFigure: true,
+  needDefaultXAxisFigure: true,
+  needDefaultYAxisFigure: true,
+  createPointFigures: ({ coordinates, bounding }) => {
+    if (coordinates.length > 1) {
+      const [center, end] = coordinates
+      const radius = getDistance(center, end)
+      if (radius > 0) {
+        const startAngle = Math.atan2(end.y - center.y, end.x - center.x)
+        const maxRadius = bounding.width + bounding.height + Math.abs(center.x) + Math.abs(center.y)
+        const logGoldenRatio = Math.log(GOLDEN_RATIO)
+        // From the radius of one pixel to out of the pane
+        const minAngle = -Math.PI / 2 * Math.log(radius) / logGoldenRatio
+        const maxAngle = Math.PI / 2 * Math.log(Math.max(maxRadius / radius, 1)) / logGoldenRatio
+        const spiralCoordinates: Coordinate[] = []
+        // The angles are multiples of the step, so that the spiral passes through the second point
+        for (let i = Math.floor(Math.min(minAngle, 0) / FIBONACCI_SPIRAL_ANGLE_STEP); i * FIBONACCI_SPIRAL_ANGLE_STEP <= maxAngle + FIBONACCI_SPIRAL_ANGLE_STEP; i++) {
+          const angle = i * FIBONACCI_SPIRAL_ANGLE_STEP
+          const r = radius * Math.pow(GOLDEN_RATIO, angle * 2 / Math.PI)
+          spiralCoordinates.push({ x: center.x + r * Math.cos(startAngle + angle), y: center.y + r * Math.sin(startAngle + angle) })
+        }
+        return [
+          {
+            type: 'line',
+            attrs: { coordinates },
+            styles: { style: 'dashed' }
+          },
+          {
+            type: 'line',
+            attrs: { coordinates: spiralCoordinates }
+          }
+        ]
+      }
+    }
+    return []
+  }
+}
+
+export default fibonacciSpiral
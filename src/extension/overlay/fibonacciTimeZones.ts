@@ -0,0 +1,71 @@
+/**
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+
+ * http://www.apache.org/licenses/LICENSE-2.0
+
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { OverlayFigure, OverlayTemplate } from '../../component/Overlay'
+
+import { getFibonacciExtendData, getFibonacciLevels, getFibonacciLevelStyles } from './fibonacciLine'
+
+const FIBONACCI_TIME_ZONE_LEVELS = [0, 1, 2, 3, 5, 8, 13, 21, 34, 55, 89]
+
+/**
+ * Vertical lines at the Fibonacci numbers of the distance between the two points
+ */
+const fibonacciTimeZones: OverlayTemplate = {
+  name: 'fibonacciTimeZones',
+  totalStep: 3,
+  needDefaultPointFigure: true,
+  needDefaultXAxisFigure: true,
+  needDefaultYAxisFigure: true,
+  createPointFigures: (params) => {
+    const { overlay, coordinates, bounding } = params
+    if (coordinates.length > 1) {
+      const { fill = false } = getFibonacciExtendData(overlay)
+      const levels = getFibonacciLevels(overlay, FIBONACCI_TIME_ZONE_LEVELS)
+      const startX = coordinates[0].x
+      const xDif = coordinates[1].x - startX
+      const bandFigures: OverlayFigure[] = []
+      const levelFigures: OverlayFigure[] = []
+      levels.forEach((level, index) => {
+        const styles = getFibonacciLevelStyles(params, level)
+        const x = startX + xDif * level.value
+        if (fill && index > 0) {
+          const prevX = startX + xDif * levels[index - 1].value
+          bandFigures.push({
+            type: 'rect',
+            attrs: { x: Math.min(x, prevX), y: 0, width: Math.abs(x - prevX), height: bounding.height },
+            styles: styles.band,
+            ignoreEvent: true
+          })
+        }
+        levelFigures.push(
+          {
+            type: 'line',
+            attrs: { coordinates: [{ x, y: 0 }, { x, y: bounding.height }] },
+            styles: styles.line
+          },
+          {
+            type: 'text',
+            ignoreEvent: true,
+            attrs: { x, y: 0, text: `${level.value}`, baseline: 'top' },
+            styles: styles.text
+          }
+        )
+      })
+      return bandFigures.concat(levelFigures)
+    }
+    return []
+  }
+}
+
+export default fibonacciTimeZones
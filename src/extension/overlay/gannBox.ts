@@ -0,0 +1,88 @@
+/**
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+
+ * http://www.apache.org/licenses/LICENSE-2.0
+
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type Coordinate from '../../common/Coordinate'
+
+import type { OverlayCreateFiguresCallbackParams, OverlayFigure, OverlayTemplate } from '../../component/Overlay'
+
+import { getFibonacciLevels, getFibonacciLevelStyles, type FibonacciLevel } from './fibonacciLine'
+
+/**
+ * Create the price and time level lines in the box of the two coordinates and the diagonals,
+ * the levels are the ratios from the first coordinate to the second coordinate
+ */
+export function createGannGridFigures (
+  params: OverlayCreateFiguresCallbackParams<unknown>,
+  levels: FibonacciLevel[],
+  start: Coordinate,
+  end: Coordinate
+): OverlayFigure[] {
+  const left = Math.min(start.x, end.x)
+  const right = Math.max(start.x, end.x)
+  const top = Math.min(start.y, end.y)
+  const bottom = Math.max(start.y, end.y)
+  const figures: OverlayFigure[] = [
+    {
+      type: 'line',
+      attrs: [
+        { coordinates: [start, end] },
+        { coordinates: [{ x: start.x, y: end.y }, { x: end.x, y: start.y }] }
+      ]
+    }
+  ]
+  levels.forEach(level => {
+    const styles = getFibonacciLevelStyles(params, level)
+    const x = start.x + (end.x - start.x) * level.value
+    const y = start.y + (end.y - start.y) * level.value
+    figures.push(
+      {
+        type: 'line',
+        attrs: [
+          { coordinates: [{ x: left, y }, { x: right, y }] },
+          { coordinates: [{ x, y: top }, { x, y: bottom }] }
+        ],
+        styles: styles.line
+      },
+      {
+        type: 'text',
+        attrs: [
+          { x: left, y, text: `${level.value}`, align: 'right', baseline: 'middle' },
+          { x, y: bottom, text: `${level.value}`, align: 'center', baseline: 'top' }
+        ],
+        styles: styles.text
+      }
+    )
+  })
+  return figures
+}
+
+/**
+ * Box of the two points divided by the price and time levels
+ */
+const gannBox: OverlayTemplate = {
+  name: 'gannBox',
+  totalStep: 3,
+  needDefaultPointFigure: true,
+  needDefaultXAxisFigure: true,
+  needDefaultYAxisFigure: true,
+  createPointFigures: (params) => {
+    const { overlay, coordinates } = params
+    if (coordinates.length > 1) {
+      return createGannGridFigures(params, getFibonacciLevels(overlay, [0, 0.25, 0.382, 0.5, 0.618, 0.75, 1]), coordinates[0], coordinates[1])
+    }
+    return []
+  }
+}
+
+export default gannBox
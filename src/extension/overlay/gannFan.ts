@@ -0,0 +1,86 @@
+/**
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+
+ * http://www.apache.org/licenses/LICENSE-2.0
+
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type Nullable from '../../common/Nullable'
+import { isArray, isValid } from '../../common/utils/typeChecks'
+
+import type { OverlayFigure, OverlayTemplate } from '../../component/Overlay'
+
+import { getRayLine } from './rayLine'
+
+export interface GannFanAngle {
+  /**
+   * The time units of the angle, the distance between the two points in time is one unit
+   */
+  time: number
+  /**
+   * The price units of the angle, the distance between the two points in price is one unit
+   */
+  price: number
+  color?: string
+  visible?: boolean
+}
+
+export interface GannFanExtendData {
+  angles?: GannFanAngle[]
+}
+
+const GANN_FAN_ANGLES: GannFanAngle[] = [
+  { time: 1, price: 8 }, { time: 1, price: 4 }, { time: 1, price: 3 }, { time: 1, price: 2 },
+  { time: 1, price: 1 },
+  { time: 2, price: 1 }, { time: 3, price: 1 }, { time: 4, price: 1 }, { time: 8, price: 1 }
+]
+
+/**
+ * Rays from the first point at the angles, the `1x1` ray passes through the second point
+ */
+const gannFan: OverlayTemplate = {
+  name: 'gannFan',
+  totalStep: 3,
+  needDefaultPointFigure: true,
+  needDefaultXAxisFigure: true,
+  needDefaultYAxisFigure: true,
+  createPointFigures: ({ overlay, coordinates, bounding }) => {
+    if (coordinates.length > 1 && (coordinates[0].x !== coordinates[1].x || coordinates[0].y !== coordinates[1].y)) {
+      const angles = (overlay.extendData as Nullable<GannFanExtendData>)?.angles
+      const [origin, end] = coordinates
+      const xDif = end.x - origin.x
+      const yDif = end.y - origin.y
+      const figures: OverlayFigure[] = []
+      const list = isArray(angles) ? angles : GANN_FAN_ANGLES
+      list.forEach(({ time, price, color, visible }) => {
+        if (visible === false || !(time > 0) || !(price > 0)) {
+          return
+        }
+        const target = { x: origin.x + xDif, y: origin.y + yDif * price / time }
+        figures.push(
+          {
+            type: 'line',
+            attrs: getRayLine([origin, target], bounding),
+            styles: isValid(color) ? { color } : {}
+          },
+          {
+            type: 'text',
+            attrs: { x: target.x, y: target.y, text: `${time}x${price}`, baseline: 'bottom' },
+            styles: isValid(color) ? { backgroundColor: color, borderColor: color } : {}
+          }
+        )
+      })
+      return figures
+    }
+    return []
+  }
+}
+
+export default gannFan
@@ -0,0 +1,55 @@
+/**
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+
+ * http://www.apache.org/licenses/LICENSE-2.0
+
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { OverlayTemplate } from '../../component/Overlay'
+
+import type { LineAttrs } from '../figure/line'
+
+import { getFibonacciLevels } from './fibonacciLine'
+import { createGannGridFigures } from './gannBox'
+
+/**
+ * Box of the two points divided equally, with the fan lines from the first point to the levels on the opposite sides
+ */
+const gannSquare: OverlayTemplate = {
+  name: 'gannSquare',
+  totalStep: 3,
+  needDefaultPointFigure: true,
+  needDefaultXAxisFigure: true,
+  needDefaultYAxisFigure: true,
+  createPointFigures: (params) => {
+    const { overlay, coordinates } = params
+    if (coordinates.length > 1) {
+      const [start, end] = coordinates
+      const levels = getFibonacciLevels(overlay, [0, 0.25, 0.5, 0.75, 1])
+      const fanLines: LineAttrs[] = []
+      levels.forEach(({ value }) => {
+        if (value > 0 && value < 1) {
+          fanLines.push(
+            { coordinates: [start, { x: end.x, y: start.y + (end.y - start.y) * value }] },
+            { coordinates: [start, { x: start.x + (end.x - start.x) * value, y: end.y }] }
+          )
+        }
+      })
+      return createGannGridFigures(params, levels, start, end).concat({
+        type: 'line',
+        attrs: fanLines,
+        styles: { style: 'dashed' }
+      })
+    }
+    return []
+  }
+}
+
+export default gannSquare
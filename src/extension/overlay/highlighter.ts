@@ -0,0 +1,32 @@
+/**
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+
+ * http://www.apache.org/licenses/LICENSE-2.0
+
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { OverlayTemplate } from '../../component/Overlay'
+
+import { createBrushFigures } from './brush'
+
+/**
+ * Wide translucent freehand stroke drawn by dragging
+ */
+const highlighter: OverlayTemplate = {
+  name: 'highlighter',
+  drawMode: 'drag',
+  extendData: { opacity: 0.35 },
+  styles: {
+    line: { size: 12, smooth: true }
+  },
+  createPointFigures: createBrushFigures
+}
+
+export default highlighter
@@ -16,16 +16,40 @@ import type Nullable from '../../common/Nullable'
 
 import OverlayImp, { type OverlayTemplate, type OverlayConstructor, type OverlayInnerConstructor } from '../../component/Overlay'
 
+import anchoredVwap from './anchoredVwap'
+import andrewsPitchfork from './andrewsPitchfork'
+import arrow from './arrow'
+import brush from './brush'
+import dateRange from './dateRange'
+import ellipse from './ellipse'
+import fibonacciArcs from './fibonacciArcs'
+import fibonacciCircles from './fibonacciCircles'
+import fibonacciExtension from './fibonacciExtension'
+import fibonacciFan from './fibonacciFan'
 import fibonacciLine from './fibonacciLine'
+import fibonacciSpiral from './fibonacciSpiral'
+import fibonacciTimeZones from './fibonacciTimeZones'
+import gannBox from './gannBox'
+import gannFan from './gannFan'
+import gannSquare from './gannSquare'
+import highlighter from './highlighter'
 import horizontalRayLine from './horizontalRayLine'
 import horizontalSegment from './horizontalSegment'
 import horizontalStraightLine from './horizontalStraightLine'
+import longPosition from './longPosition'
+import modifiedSchiffPitchfork from './modifiedSchiffPitchfork'
 import parallelStraightLine from './parallelStraightLine'
+import polyline from './polyline'
 import priceChannelLine from './priceChannelLine'
 import priceLine from './priceLine'
+import priceRange from './priceRange'
 import rayLine from './rayLine'
+import rectangle from './rectangle'
+import schiffPitchfork from './schiffPitchfork'
 import segment from './segment'
+import shortPosition from './shortPosition'
 import straightLine from './straightLine'
+import triangle from './triangle'
 import verticalRayLine from './verticalRayLine'
 import verticalSegment from './verticalSegment'
 import verticalStraightLine from './verticalStraightLine'
@@ -36,9 +60,12 @@ import simpleTag from './simpleTag'
 const overlays: Record<string, OverlayInnerConstructor> = {}
 
 const extensions = [
-  fibonacciLine, horizontalRayLine, horizontalSegment, horizontalStraightLine,
-  parallelStraightLine, priceChannelLine, priceLine, rayLine, segment,
-  straightLine, verticalRayLine, verticalSegment, verticalStraightLine,
+  anchoredVwap, andrewsPitchfork, arrow, brush, dateRange, ellipse,
+  fibonacciArcs, fibonacciCircles, fibonacciExtension, fibonacciFan, fibonacciLine, fibonacciSpiral, fibonacciTimeZones,
+  gannBox, gannFan, gannSquare, highlighter,
+  horizontalRayLine, horizontalSegment, horizontalStraightLine, longPosition, modifiedSchiffPitchfork,
+  parallelStraightLine, polyline, priceChannelLine, priceLine, priceRange, rayLine, rectangle, schiffPitchfork, segment,
+  shortPosition, straightLine, triangle, verticalRayLine, verticalSegment, verticalStraightLine,
   simpleAnnotation, simpleTag
 ]
 
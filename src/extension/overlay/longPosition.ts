@@ -0,0 +1,108 @@
+/**
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+
+ * http://www.apache.org/licenses/LICENSE-2.0
+
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { isNumber } from '../../common/utils/typeChecks'
+
+import type { OverlayCreateFiguresCallbackParams, OverlayFigure, OverlayTemplate } from '../../component/Overlay'
+
+import { i18n } from '../i18n'
+
+import { formatMeasurePercent, formatMeasureValue, getMeasureColors } from './priceRange'
+
+export type PositionSide = 'long' | 'short'
+
+/**
+ * Create the zones of the position, the points are the entry, the stop and the target,
+ * each point is the handle to drag the level
+ */
+export function createPositionFigures (params: OverlayCreateFiguresCallbackParams<unknown>, side: PositionSide): OverlayFigure[] {
+  const { chart, overlay, coordinates } = params
+  const points = overlay.points
+  if (coordinates.length < 2 || !isNumber(points[0].value)) {
+    return []
+  }
+  const entry = points[0].value
+  const locale = chart.getLocale()
+  const xs = coordinates.map(({ x }) => x)
+  const left = Math.min(...xs)
+  const right = Math.max(...xs)
+  const entryY = coordinates[0].y
+  const zoneFigures: OverlayFigure[] = []
+  const labelFigures: OverlayFigure[] = []
+  const levels: number[] = []
+  const keys = ['stop', 'target']
+  keys.forEach((key, i) => {
+    const index = i + 1
+    if (index >= coordinates.length || !isNumber(points[index].value)) {
+      return
+    }
+    const value = points[index].value
+    levels.push(value)
+    const y = coordinates[index].y
+    const profit = side === 'long' ? value - entry : entry - value
+    const { color, backgroundColor } = getMeasureColors(params, profit >= 0)
+    zoneFigures.push({
+      type: 'rect',
+      attrs: { x: left, y: Math.min(y, entryY), width: right - left, height: Math.abs(y - entryY) },
+      styles: { style: 'fill', color: backgroundColor }
+    })
+    labelFigures.push({
+      type: 'text',
+      attrs: {
+        x: left,
+        y,
+        text: `${i18n(key, locale)}${formatMeasureValue(params, value)}, ${formatMeasureValue(params, profit, true)} (${formatMeasurePercent(profit, entry)})`,
+        baseline: y < entryY ? 'bottom' : 'top'
+      },
+      styles: { backgroundColor: color, borderColor: color },
+      ignoreEvent: true
+    })
+  })
+  const entryFigures: OverlayFigure[] = [
+    {
+      type: 'line',
+      attrs: { coordinates: [{ x: left, y: entryY }, { x: right, y: entryY }] }
+    }
+  ]
+  if (levels.length > 1) {
+    const risk = Math.abs(entry - levels[0])
+    const reward = Math.abs(levels[1] - entry)
+    entryFigures.push({
+      type: 'text',
+      attrs: {
+        x: right,
+        y: entryY,
+        text: `${i18n('riskReward', locale)}${risk === 0 ? '--' : (reward / risk).toFixed(2)}`,
+        align: 'right',
+        baseline: 'middle'
+      },
+      ignoreEvent: true
+    })
+  }
+  return zoneFigures.concat(entryFigures, labelFigures)
+}
+
+/**
+ * The points are the entry, the stop below the entry and the target above the entry
+ */
+const longPosition: OverlayTemplate = {
+  name: 'longPosition',
+  totalStep: 4,
+  needDefaultPointFigure: true,
+  needDefaultXAxisFigure: true,
+  needDefaultYAxisFigure: true,
+  createPointFigures: (params) => createPositionFigures(params, 'long')
+}
+
+export default longPosition
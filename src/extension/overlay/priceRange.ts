@@ -0,0 +1,152 @@
+/**
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+
+ * http://www.apache.org/licenses/LICENSE-2.0
+
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type Nullable from '../../common/Nullable'
+import type Coordinate from '../../common/Coordinate'
+import { isNumber } from '../../common/utils/typeChecks'
+import { formatPrecision } from '../../common/utils/format'
+import { colorToRgba } from '../../common/utils/color'
+
+import type { OverlayCreateFiguresCallbackParams, OverlayFigure, OverlayTemplate } from '../../component/Overlay'
+import type { XAxis } from '../../component/XAxis'
+
+import type { LineAttrs } from '../figure/line'
+import type { TextAttrs } from '../figure/text'
+import { i18n } from '../i18n'
+
+const MEASURE_BACKGROUND_OPACITY = 0.2
+
+export function getMeasurePrecision ({ chart, overlay, yAxis }: Pick<OverlayCreateFiguresCallbackParams<unknown>, 'chart' | 'overlay' | 'yAxis'>): number {
+  if (yAxis?.isInCandle() ?? true) {
+    return chart.getPrecision().price
+  }
+  let precision = 0
+  chart.getIndicators({ paneId: overlay.paneId }).forEach(indicator => {
+    precision = Math.max(precision, indicator.precision)
+  })
+  return precision
+}
+
+/**
+ * Format the value with the chart formatting, the sign is added to the positive value when `signed` is true
+ */
+export function formatMeasureValue (params: Pick<OverlayCreateFiguresCallbackParams<unknown>, 'chart' | 'overlay' | 'yAxis'>, value: number, signed?: boolean): string {
+  const { chart } = params
+  const text = chart.getDecimalFold().format(chart.getThousandsSeparator().format(formatPrecision(value, getMeasurePrecision(params))))
+  return signed === true && value > 0 ? `+${text}` : text
+}
+
+export function formatMeasurePercent (value: number, base: number): string {
+  if (base === 0) {
+    return '--'
+  }
+  const percent = value / base * 100
+  return `${percent > 0 ? '+' : ''}${percent.toFixed(2)}%`
+}
+
+/**
+ * Get the colors of the rise and the fall, the colors of the candle bar are used
+ */
+export function getMeasureColors (params: Pick<OverlayCreateFiguresCallbackParams<unknown>, 'chart'>, rise: boolean): { color: string, backgroundColor: string } {
+  const { upColor, downColor } = params.chart.getStyles().candle.bar
+  const color = rise ? upColor : downColor
+  return { color, backgroundColor: colorToRgba(color, MEASURE_BACKGROUND_OPACITY) }
+}
+
+export function getMeasureBarCount (xAxis: Nullable<XAxis>, coordinates: Coordinate[]): number {
+  if (xAxis === null || coordinates.length < 2) {
+    return 0
+  }
+  return Math.abs(xAxis.convertFromPixel(coordinates[1].x) - xAxis.convertFromPixel(coordinates[0].x))
+}
+
+/**
+ * Create the box between the two coordinates, with the arrow from the first coordinate to the second coordinate
+ * in the direction and the label outside the box at the end of the arrow
+ */
+export function createMeasureFigures (
+  params: OverlayCreateFiguresCallbackParams<unknown>,
+  direction: 'vertical' | 'horizontal',
+  rise: boolean,
+  text: string
+): OverlayFigure[] {
+  const [start, end] = params.coordinates
+  const { color, backgroundColor } = getMeasureColors(params, rise)
+  const x = Math.min(start.x, end.x)
+  const y = Math.min(start.y, end.y)
+  const width = Math.abs(end.x - start.x)
+  const height = Math.abs(end.y - start.y)
+  const arrowSize = 6
+  let arrows: LineAttrs[] = []
+  let label: TextAttrs = { x: x + width / 2, y: y + height + arrowSize, text, align: 'center', baseline: 'top' }
+  if (direction === 'vertical') {
+    const sign = end.y > start.y ? 1 : -1
+    const arrowEnd = { x: label.x, y: end.y }
+    arrows = [
+      { coordinates: [{ x: label.x, y: start.y }, arrowEnd] },
+      { coordinates: [{ x: label.x - arrowSize, y: end.y - sign * arrowSize }, arrowEnd, { x: label.x + arrowSize, y: end.y - sign * arrowSize }] }
+    ]
+    label = { ...label, y: end.y + sign * arrowSize, baseline: sign > 0 ? 'top' : 'bottom' }
+  } else {
+    const sign = end.x > start.x ? 1 : -1
+    const centerY = y + height / 2
+    const arrowEnd = { x: end.x, y: centerY }
+    arrows = [
+      { coordinates: [{ x: start.x, y: centerY }, arrowEnd] },
+      { coordinates: [{ x: end.x - sign * arrowSize, y: centerY - arrowSize }, arrowEnd, { x: end.x - sign * arrowSize, y: centerY + arrowSize }] }
+    ]
+  }
+  return [
+    {
+      type: 'rect',
+      attrs: { x, y, width, height },
+      styles: { style: 'fill', color: backgroundColor }
+    },
+    {
+      type: 'line',
+      attrs: arrows,
+      styles: { color }
+    },
+    {
+      type: 'text',
+      attrs: label,
+      styles: { backgroundColor: color, borderColor: color },
+      ignoreEvent: true
+    }
+  ]
+}
+
+/**
+ * Measure the price change and the bar count between the two points
+ */
+const priceRange: OverlayTemplate = {
+  name: 'priceRange',
+  totalStep: 3,
+  needDefaultPointFigure: true,
+  needDefaultXAxisFigure: true,
+  needDefaultYAxisFigure: true,
+  createPointFigures: (params) => {
+    const { chart, overlay, coordinates, xAxis } = params
+    const points = overlay.points
+    if (coordinates.length > 1 && isNumber(points[0].value) && isNumber(points[1].value)) {
+      const change = points[1].value - points[0].value
+      const bars = getMeasureBarCount(xAxis, coordinates)
+      const text = `${formatMeasureValue(params, change, true)} (${formatMeasurePercent(change, points[0].value)}), ${i18n('bars', chart.getLocale())}${bars}`
+      return createMeasureFigures(params, 'vertical', change >= 0, text)
+    }
+    return []
+  }
+}
+
+export default priceRange
@@ -0,0 +1,37 @@
+/**
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+
+ * http://www.apache.org/licenses/LICENSE-2.0
+
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { OverlayTemplate } from '../../component/Overlay'
+
+import { createPitchforkFigures } from './andrewsPitchfork'
+
+/**
+ * Pitchfork with the origin moved to the middle of the first and second points in price
+ */
+const schiffPitchfork: OverlayTemplate = {
+  name: 'schiffPitchfork',
+  totalStep: 4,
+  needDefaultPointFigure: true,
+  needDefaultXAxisFigure: true,
+  needDefaultYAxisFigure: true,
+  createPointFigures: (params) => {
+    const [point1, point2] = params.coordinates
+    if (params.coordinates.length > 1) {
+      return createPitchforkFigures(params, { x: point1.x, y: (point1.y + point2.y) / 2 })
+    }
+    return []
+  }
+}
+
+export default schiffPitchfork
@@ -0,0 +1,59 @@
+/**
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+
+ * http://www.apache.org/licenses/LICENSE-2.0
+
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { isString, isValid } from '../../common/utils/typeChecks'
+import { colorToRgba } from '../../common/utils/color'
+
+import type { OverlayCreateFiguresCallbackParams, OverlayTemplate } from '../../component/Overlay'
+
+const SHAPE_FILL_OPACITY = 0.25
+
+/**
+ * Get the fill color of the closed shapes, the color of the overlay is used as it is,
+ * the polygon color of the chart styles is made translucent, so that the candles are not hidden
+ */
+export function getShapeFillColor (params: Pick<OverlayCreateFiguresCallbackParams<unknown>, 'chart' | 'overlay'>): string | CanvasGradient {
+  const { chart, overlay } = params
+  const overlayColor = overlay.styles?.polygon?.color
+  if (isValid(overlayColor)) {
+    return overlayColor
+  }
+  const color = chart.getStyles().overlay.polygon.color
+  return isString(color) ? colorToRgba(color, SHAPE_FILL_OPACITY) : color
+}
+
+const triangle: OverlayTemplate = {
+  name: 'triangle',
+  totalStep: 4,
+  needDefaultPointFigure: true,
+  needDefaultXAxisFigure: true,
+  needDefaultYAxisFigure: true,
+  styles: {
+    polygon: { style: 'stroke_fill' }
+  },
+  createPointFigures: ({ chart, overlay, coordinates }) => {
+    if (coordinates.length > 1) {
+      return [
+        {
+          type: 'polygon',
+          attrs: { coordinates },
+          styles: { color: getShapeFillColor({ chart, overlay }) }
+        }
+      ]
+    }
+    return []
+  }
+}
+
+export default triangle
@@ -45,8 +45,20 @@ import {
 } from './common/utils/format'
 import { calcTextWidth } from './common/utils/canvas'
 import type { ActionType } from './common/Action'
-import type { IndicatorSeries } from './component/Indicator'
-import type { OverlayMode } from './component/Overlay'
+import type { IndicatorSeries, IndicatorSource } from './component/Indicator'
+import type { OverlayMode, OverlayDrawMode } from './component/Overlay'
+import type { SeriesType, SeriesYAxis } from './component/Series'
+import type { AlertCondition, AlertFrequency, AlertOperand, AlertActionData } from './component/Alert'
+import {
+  createIndicatorCalcWorkerExecutor, setupIndicatorCalcWorker,
+  type IndicatorCalcExecutor, type IndicatorCalcWorkerLike
+} from './common/IndicatorCalcExecutor'
+import type { DataTransform, DataTransformCreate, DataTransformTemplate } from './common/DataTransform'
+import type { ChartState, ChartStateMigrateCallback } from './common/ChartState'
+import type { HistoryState, HistoryRecordType } from './common/History'
+import type { Period, PeriodType, PeriodSession } from './common/Period'
+import type { TickData } from './common/Data'
+import type { TickAggregation } from './Store'
 
 import type { FormatDateType, Options } from './Options'
 import ChartImp, { type Chart, type DomPosition } from './Chart'
@@ -68,6 +80,7 @@ import { registerIndicator, getSupportedIndicators } from './extension/indicator
 import { registerLocale, getSupportedLocales } from './extension/i18n/index'
 import { registerOverlay, getOverlayClass, getSupportedOverlays } from './extension/overlay/index'
 import { registerStyles } from './extension/styles/index'
+import { registerDataTransform, getSupportedDataTransforms } from './extension/data-transform/index'
 import { registerXAxis } from './extension/x-axis'
 import { registerYAxis } from './extension/y-axis'
 
@@ -171,9 +184,17 @@ export {
   registerOverlay, getSupportedOverlays, getOverlayClass,
   registerLocale, getSupportedLocales,
   registerStyles,
+  registerDataTransform, getSupportedDataTransforms,
   registerXAxis, registerYAxis,
+  createIndicatorCalcWorkerExecutor, setupIndicatorCalcWorker,
   utils,
   type LineType, type PolygonType, type TooltipShowRule, type TooltipShowType, type FeatureType, type TooltipFeaturePosition, type CandleTooltipRectPosition,
   type CandleType, type FormatDateType,
-  type DomPosition, type ActionType, type IndicatorSeries, type OverlayMode
+  type DomPosition, type ActionType, type IndicatorSeries, type IndicatorSource, type OverlayMode, type OverlayDrawMode, type SeriesType, type SeriesYAxis,
+  type AlertCondition, type AlertFrequency, type AlertOperand, type AlertActionData,
+  type IndicatorCalcExecutor, type IndicatorCalcWorkerLike,
+  type DataTransform, type DataTransformCreate, type DataTransformTemplate,
+  type ChartState, type ChartStateMigrateCallback,
+  type HistoryState, type HistoryRecordType,
+  type Period, type PeriodType, type PeriodSession, type TickData, type TickAggregation
 }
@@ -17,15 +17,16 @@ import type Nullable from '../common/Nullable'
 import type { UpdateLevel } from '../common/Updater'
 import type Bounding from '../common/Bounding'
 
-import { isValid, merge } from '../common/utils/typeChecks'
+import { isArray, isValid, merge } from '../common/utils/typeChecks'
 
 import type { Axis } from '../component/Axis'
+import type IndicatorImp from '../component/Indicator'
 
 import type DrawWidget from '../widget/DrawWidget'
 import type YAxisWidget from '../widget/YAxisWidget'
 
 import Pane from './Pane'
-import { type PaneOptions, PANE_DEFAULT_HEIGHT, PANE_MIN_HEIGHT, PaneIdConstants } from './types'
+import { type PaneOptions, type PaneYAxisOptions, PANE_DEFAULT_HEIGHT, PANE_MIN_HEIGHT, PaneIdConstants } from './types'
 
 import type Chart from '../Chart'
 
@@ -33,20 +34,35 @@ import { createDom } from '../common/utils/dom'
 import { getPixelRatio } from '../common/utils/canvas'
 import YAxisImp, { type YAxis } from '../component/YAxis'
 
+interface PaneYAxis<C> {
+  id: string
+  name: string
+  axis: C
+  widget: YAxisWidget
+}
+
+export type DrawPaneOptions = DeepRequired<Omit<PaneOptions, 'yAxes'>> & Required<Pick<PaneOptions, 'yAxes'>>
+
 export default abstract class DrawPane<C extends Axis = Axis> extends Pane {
   private readonly _mainWidget: DrawWidget<DrawPane<C>>
   private readonly _yAxisWidget: Nullable<YAxisWidget> = null
 
   private _axis: C
 
-  private readonly _options: DeepRequired<PaneOptions> = {
+  /**
+   * Additional y-axes
+   */
+  private _yAxes: Array<PaneYAxis<C>> = []
+
+  private readonly _options: DrawPaneOptions = {
     id: '',
     minHeight: PANE_MIN_HEIGHT,
     dragEnabled: true,
     order: 0,
     height: PANE_DEFAULT_HEIGHT,
     state: 'normal',
-    axis: { name: 'normal', scrollZoomEnabled: true }
+    axis: { name: 'normal', scrollZoomEnabled: true },
+    yAxes: []
   }
 
   constructor (chart: Chart, id: string, options: Omit<PaneOptions, 'id' | 'height'>) {
@@ -75,11 +91,16 @@ export default abstract class DrawPane<C extends Axis = Axis> extends Pane {
     if (this._axis instanceof YAxisImp) {
       this._axis.setAutoCalcTickFlag(true)
     }
-    merge(this._options, options)
+    const { yAxes, ...others } = options
+    merge(this._options, others)
     this._axis.override({
       ...this._options.axis,
       name: options.axis?.name ?? 'normal'
     })
+    if (isArray<PaneYAxisOptions>(yAxes) && isValid(this._yAxisWidget)) {
+      this._setYAxes(yAxes)
+      this._options.yAxes = yAxes.map(yAxis => ({ ...yAxis }))
+    }
     let container: Nullable<HTMLElement> = null
     let cursor = 'default'
     if (this.getId() === PaneIdConstants.X_AXIS) {
@@ -97,12 +118,60 @@ export default abstract class DrawPane<C extends Axis = Axis> extends Pane {
     return this
   }
 
-  getOptions (): DeepRequired<PaneOptions> { return this._options }
+  private _setYAxes (yAxes: PaneYAxisOptions[]): void {
+    const container = this.getContainer()
+    const prevYAxes = this._yAxes
+    this._yAxes = yAxes.map(({ id, name, ...others }) => {
+      let yAxis = prevYAxes.find(prev => prev.id === id)
+      if (!isValid(yAxis)) {
+        const axisName = name ?? 'normal'
+        yAxis = { id, name: axisName, axis: this.createAxisComponent(axisName), widget: this.createYAxisWidget(container, id)! }
+      } else if (isValid(name) && yAxis.name !== name) {
+        yAxis.name = name
+        yAxis.axis = this.createAxisComponent(name)
+      }
+      const axis = yAxis.axis
+      if (axis instanceof YAxisImp) {
+        axis.id = id
+        axis.setAutoCalcTickFlag(true)
+      }
+      axis.override({ ...others, name: yAxis.name })
+      return yAxis
+    })
+    prevYAxes.forEach(prev => {
+      if (!this._yAxes.includes(prev)) {
+        prev.widget.destroy()
+        container.removeChild(prev.widget.getContainer())
+      }
+    })
+  }
+
+  getOptions (): DrawPaneOptions { return this._options }
 
-  getAxisComponent (): C {
+  /**
+   * Get the axis by id, the main axis is returned when the id does not match any additional y-axis
+   */
+  getAxisComponent (id?: Nullable<string>): C {
+    if (isValid(id)) {
+      return this._yAxes.find(yAxis => yAxis.id === id)?.axis ?? this._axis
+    }
     return this._axis
   }
 
+  /**
+   * Get all axes, the main axis is the first
+   */
+  getAxisComponents (): C[] {
+    return [this._axis].concat(this._yAxes.map(({ axis }) => axis))
+  }
+
+  /**
+   * Get the indicators bound to the axis
+   */
+  getIndicatorsByAxis (axis: C): IndicatorImp[] {
+    return this.getChart().getChartStore().getIndicatorsByPaneId(this.getId()).filter(indicator => this.getAxisComponent(indicator.yAxisId) === axis)
+  }
+
   override setBounding (
     rootBounding: Partial<Bounding>,
     mainBounding?: Partial<Bounding>,
@@ -123,41 +192,85 @@ export default abstract class DrawPane<C extends Axis = Axis> extends Pane {
       this._mainWidget.setBounding(mainBounding)
     }
     if (isValid(this._yAxisWidget)) {
-      this._yAxisWidget.setBounding(contentBounding)
-      const yAxis = this._axis as unknown as YAxis
-      if (yAxis.position === 'left') {
-        if (isValid(leftYAxisBounding)) {
-          this._yAxisWidget.setBounding({ ...leftYAxisBounding, left: 0 })
+      // The axes on the same side are stacked, the main axis is the closest one to the main widget,
+      // the outermost one takes the remaining width
+      const leftYAxes: Array<Pick<PaneYAxis<YAxis>, 'axis' | 'widget'>> = []
+      const rightYAxes: Array<Pick<PaneYAxis<YAxis>, 'axis' | 'widget'>> = []
+      this._getYAxes().forEach(yAxis => {
+        yAxis.widget.setBounding(contentBounding)
+        if (yAxis.axis.position === 'left') {
+          leftYAxes.push(yAxis)
+        } else {
+          rightYAxes.push(yAxis)
         }
-      } else {
-        if (isValid(rightYAxisBounding)) {
-          this._yAxisWidget.setBounding(rightYAxisBounding)
+      })
+      if (isValid(leftYAxisBounding)) {
+        const totalWidth = leftYAxisBounding.width ?? 0
+        let usedWidth = 0
+        leftYAxes.forEach(({ axis, widget }, index) => {
+          const width = index === leftYAxes.length - 1 ? totalWidth - usedWidth : Math.min(totalWidth - usedWidth, axis.getAutoSize())
+          widget.setBounding({ ...leftYAxisBounding, width, left: totalWidth - usedWidth - width })
+          usedWidth += width
+        })
+      }
+      if (isValid(rightYAxisBounding)) {
+        const totalWidth = rightYAxisBounding.width ?? 0
+        let usedWidth = 0
+        rightYAxes.forEach(({ axis, widget }, index) => {
+          const width = index === rightYAxes.length - 1 ? totalWidth - usedWidth : Math.min(totalWidth - usedWidth, axis.getAutoSize())
+          widget.setBounding({ ...rightYAxisBounding, width })
           if (mainBoundingValid) {
-            this._yAxisWidget.setBounding({
+            widget.setBounding({
               left: (mainBounding.left ?? 0) +
                 (mainBounding.width ?? 0) +
                 (mainBounding.right ?? 0) -
-                (rightYAxisBounding.width ?? 0)
+                totalWidth + usedWidth
             })
           }
-        }
+          usedWidth += width
+        })
       }
     }
     return this
   }
 
+  private _getYAxes (): Array<Pick<PaneYAxis<YAxis>, 'axis' | 'widget'>> {
+    const yAxes: Array<Pick<PaneYAxis<YAxis>, 'axis' | 'widget'>> = []
+    if (this._axis instanceof YAxisImp) {
+      yAxes.push({ axis: this._axis, widget: this._yAxisWidget! })
+    }
+    this._yAxes.forEach(({ axis, widget }) => {
+      if (axis instanceof YAxisImp) {
+        yAxes.push({ axis, widget })
+      }
+    })
+    return yAxes
+  }
+
   getMainWidget (): DrawWidget<DrawPane<C>> { return this._mainWidget }
 
-  getYAxisWidget (): Nullable<YAxisWidget> { return this._yAxisWidget }
+  /**
+   * Get the y-axis widget by the axis id, the main y-axis widget is returned when the id does not match
+   */
+  getYAxisWidget (id?: Nullable<string>): Nullable<YAxisWidget> {
+    if (isValid(id)) {
+      return this._yAxes.find(yAxis => yAxis.id === id)?.widget ?? this._yAxisWidget
+    }
+    return this._yAxisWidget
+  }
+
+  getYAxisWidgets (): YAxisWidget[] {
+    return isValid(this._yAxisWidget) ? [this._yAxisWidget].concat(this._yAxes.map(({ widget }) => widget)) : []
+  }
 
   override updateImp (level: UpdateLevel): void {
     this._mainWidget.update(level)
-    this._yAxisWidget?.update(level)
+    this.getYAxisWidgets().forEach(widget => { widget.update(level) })
   }
 
   destroy (): void {
     this._mainWidget.destroy()
-    this._yAxisWidget?.destroy()
+    this.getYAxisWidgets().forEach(widget => { widget.destroy() })
   }
 
   override getImage (includeOverlay: boolean): HTMLCanvasElement {
@@ -179,20 +292,20 @@ export default abstract class DrawPane<C extends Axis = Axis> extends Pane {
       mainBounding.left, 0,
       mainBounding.width, mainBounding.height
     )
-    if (this._yAxisWidget !== null) {
-      const yAxisBounding = this._yAxisWidget.getBounding()
+    this.getYAxisWidgets().forEach(widget => {
+      const yAxisBounding = widget.getBounding()
       ctx.drawImage(
-        this._yAxisWidget.getImage(includeOverlay),
+        widget.getImage(includeOverlay),
         yAxisBounding.left, 0,
         yAxisBounding.width, yAxisBounding.height
       )
-    }
+    })
     return canvas
   }
 
   protected abstract createAxisComponent (name: string): C
 
-  protected createYAxisWidget (_container: HTMLElement): Nullable<YAxisWidget> { return null }
+  protected createYAxisWidget (_container: HTMLElement, _axisId?: string): Nullable<YAxisWidget> { return null }
 
   protected abstract createMainWidget (container: HTMLElement): DrawWidget<DrawPane<C>>
 }
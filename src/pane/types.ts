@@ -16,6 +16,10 @@ import type { AxisCreate } from '../component/Axis'
 
 export type PaneState = 'normal' | 'maximize' | 'minimize'
 
+export interface PaneYAxisOptions extends Partial<AxisCreate> {
+  id: string
+}
+
 export interface PaneOptions {
   id?: string
   height?: number
@@ -24,6 +28,10 @@ export interface PaneOptions {
   order?: number
   state?: PaneState,
   axis?: Partial<AxisCreate>
+  /**
+   * Additional y-axes, indicators are bound to them by `yAxisId`
+   */
+  yAxes?: PaneYAxisOptions[]
 }
 
 export const PANE_MIN_HEIGHT = 30
@@ -27,7 +27,7 @@ export default abstract class AxisView<C extends Axis = Axis> extends View<C> {
     const widget = this.getWidget()
     const pane = widget.getPane()
     const bounding = widget.getBounding()
-    const axis = pane.getAxisComponent()
+    const axis = pane.getAxisComponent(widget.getAxisId())
     const styles: AxisStyle = this.getAxisStyles(pane.getChart().getStyles())
     if (styles.show) {
       if (styles.axisLine.show) {
@@ -86,7 +86,8 @@ export default class CandleBarView extends ChildrenView {
           const correction = barSpace.gapBar % 2 === 0 ? 1 : 0
           let rects: Array<FigureCreate<RectAttrs | RectAttrs[], Partial<RectStyle>>> = []
           switch (type) {
-            case 'candle_solid': {
+            case 'candle_solid':
+            case 'heikin_ashi': {
               rects = this._createSolidBar(x, priceY, barSpace, colors, correction)
               break
             }
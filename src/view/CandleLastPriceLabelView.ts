@@ -31,7 +31,7 @@ export default class CandleLastPriceLabelView extends View {
     if (priceMarkStyles.show && lastPriceMarkStyles.show && lastPriceMarkTextStyles.show) {
       const precision = chartStore.getPrecision()
       const yAxis = pane.getAxisComponent() as YAxis
-      const dataList = chartStore.getDataList()
+      const dataList = chartStore.getCandleDataList()
       const data = dataList[dataList.length - 1]
       if (isValid(data)) {
         const { close, open } = data
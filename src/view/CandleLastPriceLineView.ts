@@ -28,7 +28,7 @@ export default class CandleLastPriceView extends View {
     const lastPriceMarkLineStyles = lastPriceMarkStyles.line
     if (priceMarkStyles.show && lastPriceMarkStyles.show && lastPriceMarkLineStyles.show) {
       const yAxis = pane.getAxisComponent() as YAxis
-      const dataList = chartStore.getDataList()
+      const dataList = chartStore.getCandleDataList()
       const data = dataList[dataList.length - 1]
       if (isValid(data)) {
         const { close, open } = data
@@ -17,7 +17,7 @@ import type {
 } from '../common/Styles'
 import { formatPrecision } from '../common/utils/format'
 import { createFont } from '../common/utils/canvas'
-import { isFunction, isObject, isValid } from '../common/utils/typeChecks'
+import { isFunction, isNumber, isObject, isValid } from '../common/utils/typeChecks'
 
 import { PaneIdConstants } from '../pane/types'
 
@@ -358,7 +358,7 @@ export default class CandleTooltipView extends IndicatorTooltipView {
   private _getCandleTooltipLegends (): TooltipLegend[] {
     const chartStore = this.getWidget().getPane().getChart().getChartStore()
     const styles = chartStore.getStyles().candle
-    const dataList = chartStore.getDataList()
+    const dataList = chartStore.getCrosshairDataList()
     const formatter = chartStore.getInnerFormatter()
     const decimalFold = chartStore.getDecimalFold()
     const thousandsSeparator = chartStore.getThousandsSeparator()
@@ -393,7 +393,7 @@ export default class CandleTooltipView extends IndicatorTooltipView {
         ? tooltipStyles.custom({ prev, current, next: dataList[dataIndex + 1] ?? null }, styles)
         : tooltipStyles.custom
     )
-    return legends.map(({ title, value }) => {
+    const candleLegends = legends.map(({ title, value }) => {
       let t: TooltipLegendChild = { text: '', color: textColor }
       if (isObject(title)) {
         t = { ...title }
@@ -417,5 +417,20 @@ export default class CandleTooltipView extends IndicatorTooltipView {
       }
       return { title: t, value: v }
     })
+    const mainDataList = chartStore.getDataList()
+    chartStore.getSeries().forEach(series => {
+      if (series.visible) {
+        const data = series.getAlignedDataList(mainDataList)[dataIndex]
+        const value = series.type === 'candle' ? data?.close : data?.[series.value]
+        candleLegends.push({
+          title: { text: `${series.name}: `, color: series.styles.color },
+          value: {
+            text: isNumber(value) ? decimalFold.format(thousandsSeparator.format(formatPrecision(value, pricePrecision))) : tooltipStyles.defaultValue,
+            color: textColor
+          }
+        })
+      }
+    })
+    return candleLegends
   }
 }
@@ -40,7 +40,7 @@ export default class CrosshairHorizontalLabelView<C extends Axis = YAxis> extend
         const textStyles = directionStyles.text
         if (directionStyles.show && textStyles.show) {
           const bounding = widget.getBounding()
-          const axis = pane.getAxisComponent()
+          const axis = pane.getAxisComponent(widget.getAxisId())
           const text = this.getText(crosshair, chartStore, axis)
           ctx.font = createFont(textStyles.size, textStyles.weight, textStyles.family)
           this.createFigure({
@@ -69,7 +69,7 @@ export default class CrosshairHorizontalLabelView<C extends Axis = YAxis> extend
     if (yAxis.isInCandle()) {
       precision = chartStore.getPrecision().price
     } else {
-      const indicators = chartStore.getIndicatorsByPaneId(crosshair.paneId!)
+      const indicators = this.getWidget().getPane().getIndicatorsByAxis(axis as C)
       indicators.forEach(indicator => {
         precision = Math.max(indicator.precision, precision)
         shouldFormatBigNumber ||= indicator.shouldFormatBigNumber
@@ -12,7 +12,7 @@
  * limitations under the License.
  */
 
-import { isNumber, isValid } from '../common/utils/typeChecks'
+import { isNumber } from '../common/utils/typeChecks'
 
 import { eachFigures, type IndicatorFigure, type IndicatorFigureStyle } from '../component/Indicator'
 
@@ -30,20 +30,21 @@ export default class IndicatorLastValueView extends View<YAxis> {
     const lastValueMarkStyles = defaultStyles.lastValueMark
     const lastValueMarkTextStyles = lastValueMarkStyles.text
     if (lastValueMarkStyles.show) {
-      const yAxis = pane.getAxisComponent()
+      const yAxis = pane.getAxisComponent(widget.getAxisId())
       const yAxisRange = yAxis.getRange()
       const dataList = chartStore.getDataList()
       const dataIndex = dataList.length - 1
-      const indicators = chartStore.getIndicatorsByPaneId(pane.getId())
+      const indicators = pane.getIndicatorsByAxis(yAxis)
       const formatter = chartStore.getInnerFormatter()
       const decimalFold = chartStore.getDecimalFold()
       const thousandsSeparator = chartStore.getThousandsSeparator()
       indicators.forEach(indicator => {
         const result = indicator.result
-        const data = result[dataIndex] ?? result[dataIndex - 1] ?? {}
-        if (isValid(data) && indicator.visible) {
+        if (indicator.visible) {
           const precision = indicator.precision
           eachFigures(indicator, dataIndex, defaultStyles, (figure: IndicatorFigure, figureStyles: Required<IndicatorFigureStyle>) => {
+            const valueIndex = dataIndex - (figure.shift ?? 0)
+            const data = result[valueIndex] ?? result[valueIndex - 1] ?? {}
             // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment -- ignore
             const value = data[figure.key]
             if (isNumber(value)) {
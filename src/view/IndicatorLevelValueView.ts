@@ -0,0 +1,70 @@
+/**
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+
+ * http://www.apache.org/licenses/LICENSE-2.0
+
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { getLevelStyles } from '../component/Indicator'
+
+import View from './View'
+
+import type { YAxis } from '../component/YAxis'
+
+export default class IndicatorLevelValueView extends View<YAxis> {
+  override drawImp (ctx: CanvasRenderingContext2D): void {
+    const widget = this.getWidget()
+    const pane = widget.getPane()
+    const bounding = widget.getBounding()
+    const chartStore = pane.getChart().getChartStore()
+    const defaultStyles = chartStore.getStyles().indicator
+    const yAxis = pane.getAxisComponent(widget.getAxisId())
+    const yAxisRange = yAxis.getRange()
+    const indicators = pane.getIndicatorsByAxis(yAxis)
+    const formatter = chartStore.getInnerFormatter()
+    const decimalFold = chartStore.getDecimalFold()
+    const thousandsSeparator = chartStore.getThousandsSeparator()
+    indicators.forEach(indicator => {
+      if (indicator.visible && indicator.levels.length > 0) {
+        const { line: lineStyles, mark: markStyles } = getLevelStyles(indicator, defaultStyles)
+        if (markStyles.show) {
+          indicator.levels.forEach(({ value, color }) => {
+            let text = yAxis.displayValueToText(
+              yAxis.realValueToDisplayValue(
+                yAxis.valueToRealValue(value, { range: yAxisRange }),
+                { range: yAxisRange }
+              ),
+              indicator.precision
+            )
+            if (indicator.shouldFormatBigNumber) {
+              text = formatter.formatBigNumber(text)
+            }
+            text = decimalFold.format(thousandsSeparator.format(text))
+            const isFromZero = yAxis.isFromZero()
+            this.createFigure({
+              name: 'text',
+              attrs: {
+                x: isFromZero ? 0 : bounding.width,
+                y: yAxis.convertToNicePixel(value),
+                text,
+                align: isFromZero ? 'left' : 'right',
+                baseline: 'middle'
+              },
+              styles: {
+                ...markStyles.text,
+                backgroundColor: color ?? lineStyles.color
+              }
+            })?.draw(ctx)
+          })
+        }
+      }
+    })
+  }
+}
@@ -23,7 +23,7 @@ import type Nullable from '../common/Nullable'
 import type { YAxis } from '../component/YAxis'
 
 import type { Indicator, IndicatorFigure, IndicatorFigureStyle, IndicatorTooltipData } from '../component/Indicator'
-import { eachFigures } from '../component/Indicator'
+import { eachFigures, getMarkerStyles } from '../component/Indicator'
 
 import type DrawPane from '../pane/DrawPane'
 import type DrawWidget from '../widget/DrawWidget'
@@ -336,9 +336,10 @@ export default class IndicatorTooltipView extends View<YAxis> {
     const thousandsSeparator = chartStore.getThousandsSeparator()
     const legends: TooltipLegend[] = []
     if (indicator.visible) {
-      const data = result[dataIndex] ?? result[dataIndex - 1] ?? {}
       eachFigures(indicator, dataIndex, styles, (figure: IndicatorFigure, figureStyles: Required<IndicatorFigureStyle>) => {
         if (isString(figure.title)) {
+          const valueIndex = dataIndex - (figure.shift ?? 0)
+          const data = result[valueIndex] ?? result[valueIndex - 1] ?? {}
           const color = figureStyles.color
           // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment  -- ignore
           let value = data[figure.key]
@@ -352,6 +353,17 @@ export default class IndicatorTooltipView extends View<YAxis> {
           legends.push({ title: { text: figure.title, color }, value: { text: (value ?? tooltipStyles.defaultValue) as string, color } })
         }
       })
+      // The texts of the markers at the crosshair data
+      const timestamp = chartStore.getCrosshair().kLineData?.timestamp
+      if (isNumber(timestamp) && indicator.markers.length > 0) {
+        const markerStyles = getMarkerStyles(indicator, styles)
+        indicator.markers.forEach(({ timestamp: markerTimestamp, position, text, color }) => {
+          if (markerTimestamp === timestamp && isString(text) && text.length > 0) {
+            const markerColor = color ?? (position === 'above' ? markerStyles.aboveColor : markerStyles.belowColor)
+            legends.push({ title: { text: '', color: markerColor }, value: { text, color: markerColor } })
+          }
+        })
+      }
       tooltipData.legends = legends
     }
 
@@ -365,7 +377,7 @@ export default class IndicatorTooltipView extends View<YAxis> {
         crosshair: chartStore.getCrosshair(),
         bounding: widget.getBounding(),
         xAxis: pane.getChart().getXAxisPane().getAxisComponent(),
-        yAxis: pane.getAxisComponent()
+        yAxis: pane.getAxisComponent(indicator.yAxisId)
       })
       if (isString(customName) && tooltipStyles.showName) {
         tooltipData.name = customName
@@ -13,12 +13,15 @@
  */
 
 import type Nullable from '../common/Nullable'
-import type { CandleColorCompareRule, SmoothLineStyle } from '../common/Styles'
+import type { CandleColorCompareRule, IndicatorStyle, SmoothLineStyle } from '../common/Styles'
 import { formatValue } from '../common/utils/format'
-import { isNumber, isValid } from '../common/utils/typeChecks'
+import { isArray, isNumber, isValid } from '../common/utils/typeChecks'
 import type Coordinate from '../common/Coordinate'
+import type { NeighborData } from '../common/Data'
 
-import { eachFigures, type IndicatorFigure, type IndicatorFigureAttrs, type IndicatorFigureStyle } from '../component/Indicator'
+import type IndicatorImp from '../component/Indicator'
+import { eachFigures, getLevelStyles, type IndicatorFigure, type IndicatorFigureAttrs, type IndicatorFigureStyle } from '../component/Indicator'
+import type { YAxis } from '../component/YAxis'
 
 import CandleBarView, { type CandleBarOptions } from './CandleBarView'
 
@@ -28,7 +31,7 @@ export default class IndicatorView extends CandleBarView {
     const yAxis = pane.getAxisComponent()
     if (!yAxis.isInCandle()) {
       const chartStore = pane.getChart().getChartStore()
-      const indicators = chartStore.getIndicatorsByPaneId(pane.getId())
+      const indicators = pane.getIndicatorsByAxis(yAxis)
       for (const indicator of indicators) {
         if (indicator.shouldOhlc && indicator.visible) {
           const indicatorStyles = indicator.styles
@@ -65,18 +68,19 @@ export default class IndicatorView extends CandleBarView {
     const chart = pane.getChart()
     const bounding = widget.getBounding()
     const xAxis = chart.getXAxisPane().getAxisComponent()
-    const yAxis = pane.getAxisComponent()
     const chartStore = chart.getChartStore()
     const indicators = chartStore.getIndicatorsByPaneId(pane.getId())
     const defaultStyles = chartStore.getStyles().indicator
     ctx.save()
     indicators.forEach(indicator => {
       if (indicator.visible) {
+        const yAxis = pane.getAxisComponent(indicator.yAxisId)
         if (indicator.zLevel < 0) {
           ctx.globalCompositeOperation = 'destination-over'
         } else {
           ctx.globalCompositeOperation = 'source-over'
         }
+        this._drawLevels(ctx, indicator, yAxis, defaultStyles)
         let isCover = false
         if (indicator.draw !== null) {
           ctx.save()
@@ -91,6 +95,7 @@ export default class IndicatorView extends CandleBarView {
           ctx.restore()
         }
         if (!isCover) {
+          this._drawFills(ctx, indicator, yAxis, defaultStyles)
           const result = indicator.result
           const lines: Array<Array<{ coordinates: Coordinate[], styles: Partial<SmoothLineStyle> }>> = []
 
@@ -99,36 +104,53 @@ export default class IndicatorView extends CandleBarView {
             const { dataIndex, x } = data
             const prevX = xAxis.convertToPixel(dataIndex - 1)
             const nextX = xAxis.convertToPixel(dataIndex + 1)
-            const prevData = result[dataIndex - 1] ?? null
-            const currentData = result[dataIndex] ?? null
-            const nextData = result[dataIndex + 1] ?? null
-            const prevCoordinate = { x: prevX }
-            const currentCoordinate = { x }
-            const nextCoordinate = { x: nextX }
-            indicator.figures.forEach(({ key }) => {
-              // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment -- ignore
-              const prevValue = prevData?.[key]
-              if (isNumber(prevValue)) {
-                prevCoordinate[key] = yAxis.convertToPixel(prevValue)
-              }
-              // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment -- ignore
-              const currentValue = currentData?.[key]
-              if (isNumber(currentValue)) {
-                currentCoordinate[key] = yAxis.convertToPixel(currentValue)
-              }
-              // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment -- ignore
-              const nextValue = nextData?.[key]
-              if (isNumber(nextValue)) {
-                nextCoordinate[key] = yAxis.convertToPixel(nextValue)
+            // The figures shifted by the same count read the same neighbor data
+            const getNeighbor = (shift: number): {
+              data: NeighborData<unknown>
+              coordinate: NeighborData<{ x: number }>
+            } => {
+              const index = dataIndex - shift
+              const prevData = result[index - 1] ?? null
+              const currentData = result[index] ?? null
+              const nextData = result[index + 1] ?? null
+              const prevCoordinate = { x: prevX }
+              const currentCoordinate = { x }
+              const nextCoordinate = { x: nextX }
+              indicator.figures.forEach(({ key }) => {
+                // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment -- ignore
+                const prevValue = prevData?.[key]
+                if (isNumber(prevValue)) {
+                  prevCoordinate[key] = yAxis.convertToPixel(prevValue)
+                }
+                // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment -- ignore
+                const currentValue = currentData?.[key]
+                if (isNumber(currentValue)) {
+                  currentCoordinate[key] = yAxis.convertToPixel(currentValue)
+                }
+                // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment -- ignore
+                const nextValue = nextData?.[key]
+                if (isNumber(nextValue)) {
+                  nextCoordinate[key] = yAxis.convertToPixel(nextValue)
+                }
+              })
+              return {
+                data: { prev: prevData, current: currentData, next: nextData },
+                coordinate: { prev: prevCoordinate, current: currentCoordinate, next: nextCoordinate }
               }
-            })
+            }
+            const neighbors: Record<number, ReturnType<typeof getNeighbor>> = {}
             eachFigures(indicator, dataIndex, defaultStyles, (figure: IndicatorFigure, figureStyles: IndicatorFigureStyle, figureIndex: number) => {
-              if (isValid(currentData?.[figure.key])) {
+              const shift = figure.shift ?? 0
+              neighbors[shift] ??= getNeighbor(shift)
+              const { data: neighborData, coordinate: neighborCoordinate } = neighbors[shift]
+              const { current: currentData } = neighborData
+              const { current: currentCoordinate, next: nextCoordinate } = neighborCoordinate
+              if (figure.type !== 'fill' && isValid(currentData?.[figure.key])) {
                 // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment -- ignore
                 const valueY = currentCoordinate[figure.key]
                 let attrs = figure.attrs?.({
-                  data: { prev: prevData, current: currentData, next: nextData },
-                  coordinate: { prev: prevCoordinate, current: currentCoordinate, next: nextCoordinate },
+                  data: neighborData,
+                  coordinate: neighborCoordinate,
                   bounding,
                   barSpace,
                   xAxis,
@@ -241,4 +263,129 @@ export default class IndicatorView extends CandleBarView {
     })
     ctx.restore()
   }
+
+  /**
+   * Draw the reference bands and lines under the other figures
+   */
+  private _drawLevels (ctx: CanvasRenderingContext2D, indicator: IndicatorImp, yAxis: YAxis, defaultStyles: IndicatorStyle): void {
+    const { levels, bands } = indicator
+    if (levels.length === 0 && bands.length === 0) {
+      return
+    }
+    const { width } = this.getWidget().getBounding()
+    const { line: lineStyles, band: bandStyles } = getLevelStyles(indicator, defaultStyles)
+    if (bandStyles.show) {
+      bands.forEach(({ from, to, color }) => {
+        const fromY = yAxis.convertToPixel(from)
+        const toY = yAxis.convertToPixel(to)
+        this.createFigure({
+          name: 'rect',
+          attrs: { x: 0, y: Math.min(fromY, toY), width, height: Math.abs(toY - fromY) },
+          styles: { style: 'fill', color: color ?? bandStyles.color }
+        })?.draw(ctx)
+      })
+    }
+    if (lineStyles.show) {
+      levels.forEach(({ value, color }) => {
+        const y = yAxis.convertToPixel(value)
+        this.createFigure({
+          name: 'line',
+          attrs: { coordinates: [{ x: 0, y }, { x: width, y }] },
+          styles: { ...lineStyles, color: color ?? lineStyles.color }
+        })?.draw(ctx)
+      })
+    }
+  }
+
+  /**
+   * Fill the area between two values under the other figures,
+   * the area is split where the values cross so that each part can have its own styles
+   */
+  private _drawFills (ctx: CanvasRenderingContext2D, indicator: IndicatorImp, yAxis: YAxis, defaultStyles: IndicatorStyle): void {
+    const fillFigures = indicator.figures.filter(({ type }) => type === 'fill')
+    if (fillFigures.length === 0) {
+      return
+    }
+    const xAxis = this.getWidget().getPane().getChart().getXAxisPane().getAxisComponent()
+    const result = indicator.result as Array<Nullable<Record<string, unknown>> | undefined>
+    const getFillStyles: ((dataIndex: number) => IndicatorFigureStyle[]) = dataIndex => {
+      const fillStyles: IndicatorFigureStyle[] = []
+      eachFigures(indicator, dataIndex, defaultStyles, (figure: IndicatorFigure, figureStyles: IndicatorFigureStyle, figureIndex: number) => {
+        if (figure.type === 'fill') {
+          fillStyles[figureIndex] = figureStyles
+        }
+      })
+      return fillStyles
+    }
+    const getCoordinateY: ((dataIndex: number, key: string) => Nullable<number>) = (dataIndex, key) => {
+      const value = result[dataIndex]?.[key]
+      return isNumber(value) ? yAxis.convertToPixel(value) : null
+    }
+    const areas: Array<Array<{ tops: Coordinate[], bottoms: Coordinate[], styles: IndicatorFigureStyle }>> = fillFigures.map(() => [])
+    const addArea: ((figureIndex: number, tops: Coordinate[], bottoms: Coordinate[], styles: IndicatorFigureStyle) => void) = (figureIndex, tops, bottoms, styles) => {
+      const figureAreas = areas[figureIndex]
+      const lastArea = figureAreas[figureAreas.length - 1] as (typeof figureAreas)[number] | undefined
+      if (isValid(lastArea)) {
+        const lastTop = lastArea.tops[lastArea.tops.length - 1]
+        const lastBottom = lastArea.bottoms[lastArea.bottoms.length - 1]
+        if (
+          lastTop.x === tops[0].x &&
+          lastTop.y === tops[0].y &&
+          lastBottom.y === bottoms[0].y &&
+          lastArea.styles.style === styles.style &&
+          lastArea.styles.color === styles.color &&
+          lastArea.styles.borderColor === styles.borderColor &&
+          lastArea.styles.borderSize === styles.borderSize
+        ) {
+          lastArea.tops.push(tops[1])
+          lastArea.bottoms.push(bottoms[1])
+          return
+        }
+      }
+      figureAreas.push({ tops, bottoms, styles })
+    }
+
+    // The styles of the next data are kept for the next child
+    let cacheFillStyles: Nullable<IndicatorFigureStyle[]> = null
+    this.eachChildren(({ dataIndex, x }) => {
+      const fillStyles = cacheFillStyles ?? getFillStyles(dataIndex)
+      const nextFillStyles = getFillStyles(dataIndex + 1)
+      cacheFillStyles = nextFillStyles
+      const nextX = xAxis.convertToPixel(dataIndex + 1)
+      fillFigures.forEach(({ between, shift }, index) => {
+        if (!isArray(between)) {
+          return
+        }
+        const [key, compareKey] = between
+        const valueIndex = dataIndex - (shift ?? 0)
+        const y = getCoordinateY(valueIndex, key)
+        const compareY = getCoordinateY(valueIndex, compareKey)
+        const nextY = getCoordinateY(valueIndex + 1, key)
+        const nextCompareY = getCoordinateY(valueIndex + 1, compareKey)
+        if (y === null || compareY === null || nextY === null || nextCompareY === null) {
+          return
+        }
+        const diff = y - compareY
+        const nextDiff = nextY - nextCompareY
+        if (diff * nextDiff < 0) {
+          const ratio = diff / (diff - nextDiff)
+          const cross = { x: x + (nextX - x) * ratio, y: y + (nextY - y) * ratio }
+          addArea(index, [{ x, y }, cross], [{ x, y: compareY }, cross], fillStyles[index])
+          addArea(index, [cross, { x: nextX, y: nextY }], [cross, { x: nextX, y: nextCompareY }], nextFillStyles[index])
+        } else {
+          addArea(index, [{ x, y }, { x: nextX, y: nextY }], [{ x, y: compareY }, { x: nextX, y: nextCompareY }], fillStyles[index])
+        }
+      })
+    })
+
+    areas.forEach(figureAreas => {
+      figureAreas.forEach(({ tops, bottoms, styles }) => {
+        this.createFigure({
+          name: 'polygon',
+          attrs: { coordinates: tops.concat(bottoms.reverse()) },
+          styles
+        })?.draw(ctx)
+      })
+    })
+  }
 }
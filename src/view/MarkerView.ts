@@ -0,0 +1,173 @@
+/**
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+
+ * http://www.apache.org/licenses/LICENSE-2.0
+
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type Coordinate from '../common/Coordinate'
+import type { EventHandler } from '../common/SyntheticEvent'
+import type { IndicatorMarkerStyle } from '../common/Styles'
+import { binarySearchNearest } from '../common/utils/number'
+
+import type { Indicator, IndicatorMarker } from '../component/Indicator'
+import { getMarkerStyles } from '../component/Indicator'
+import type { YAxis } from '../component/YAxis'
+
+import type DrawPane from '../pane/DrawPane'
+import type DrawWidget from '../widget/DrawWidget'
+import View from './View'
+
+/**
+ * The markers of the indicators in all panes and the triggered alerts, drawn above or below the candles
+ */
+export default class MarkerView extends View<YAxis> {
+  private readonly _markerClickEvent = (indicator: Indicator, marker: IndicatorMarker) => () => {
+    indicator.onClick?.({
+      target: 'marker',
+      chart: this.getWidget().getPane().getChart(),
+      indicator,
+      marker
+    })
+    return true
+  }
+
+  private readonly _markerMouseMoveEvent = (): boolean => {
+    this.getWidget().setForceCursor('pointer')
+    return true
+  }
+
+  /**
+   * The markers at the same data and position are stacked away from the candle
+   */
+  private _stackOffsets: Record<string, number> = {}
+
+  constructor (widget: DrawWidget<DrawPane<YAxis>>) {
+    super(widget)
+    this.registerEvent('mouseMoveEvent', _ => {
+      this.getWidget().setForceCursor(null)
+      return false
+    })
+  }
+
+  override drawImp (ctx: CanvasRenderingContext2D): void {
+    const chartStore = this.getWidget().getPane().getChart().getChartStore()
+    const defaultStyles = chartStore.getStyles().indicator
+    this._stackOffsets = {}
+    chartStore.getIndicatorsByFilter({}).forEach(indicator => {
+      if (!indicator.visible || indicator.markers.length === 0) {
+        return
+      }
+      const styles = getMarkerStyles(indicator, defaultStyles)
+      indicator.markers.forEach(marker => {
+        this._drawMarker(ctx, marker, styles, {
+          mouseClickEvent: this._markerClickEvent(indicator, marker),
+          mouseMoveEvent: this._markerMouseMoveEvent
+        })
+      })
+    })
+    chartStore.getAlerts().forEach(alert => {
+      const marker = alert.marker
+      if (marker === null) {
+        return
+      }
+      alert.triggers.forEach(({ timestamp }) => {
+        this._drawMarker(ctx, { position: 'above', text: alert.name, ...marker, timestamp }, defaultStyles.markers)
+      })
+    })
+  }
+
+  private _drawMarker (ctx: CanvasRenderingContext2D, marker: IndicatorMarker, styles: IndicatorMarkerStyle, handler?: EventHandler): void {
+    const pane = this.getWidget().getPane()
+    const chart = pane.getChart()
+    const chartStore = chart.getChartStore()
+    const xAxis = chart.getXAxisPane().getAxisComponent()
+    const yAxis = pane.getAxisComponent()
+    // The markers are placed on the drawn candles, such as the heikin-ashi candles
+    const dataList = chartStore.getCandleDataList()
+    const { from, to } = chartStore.getVisibleRange()
+    const dataIndex = binarySearchNearest(dataList, 'timestamp', marker.timestamp)
+    if (dataIndex < from || dataIndex >= to || dataList[dataIndex].timestamp !== marker.timestamp) {
+      return
+    }
+    const { size, offset, aboveColor, belowColor, text: textStyles } = styles
+    const { position, shape = 'arrow', text, color: markerColor } = marker
+    const isAbove = position === 'above'
+    const color = markerColor ?? (isAbove ? aboveColor : belowColor)
+    const kLineData = dataList[dataIndex]
+    const stackKey = `${dataIndex}_${position}`
+    const stackOffset = this._stackOffsets[stackKey] ?? 0
+    const hasText = (text?.length ?? 0) > 0
+    this._stackOffsets[stackKey] = stackOffset + offset + size + (hasText ? textStyles.size + offset : 0)
+    // The shape extends away from the candle from the tip
+    const sign = isAbove ? -1 : 1
+    const x = xAxis.convertToPixel(dataIndex)
+    const tipY = yAxis.convertToPixel(isAbove ? kLineData.high : kLineData.low) + sign * (offset + stackOffset)
+    switch (shape) {
+      case 'circle': {
+        this.createFigure({
+          name: 'circle',
+          attrs: { x, y: tipY + sign * size / 2, r: size / 2 },
+          styles: { style: 'fill', color }
+        }, handler)?.draw(ctx)
+        break
+      }
+      case 'square': {
+        this.createFigure({
+          name: 'rect',
+          attrs: { x: x - size / 2, y: Math.min(tipY, tipY + sign * size), width: size, height: size },
+          styles: { style: 'fill', color }
+        }, handler)?.draw(ctx)
+        break
+      }
+      default: {
+        let coordinates: Coordinate[] = []
+        if (shape === 'triangle') {
+          coordinates = [
+            { x, y: tipY },
+            { x: x - size / 2, y: tipY + sign * size },
+            { x: x + size / 2, y: tipY + sign * size }
+          ]
+        } else {
+          const headY = tipY + sign * size / 2
+          const tailY = tipY + sign * size
+          coordinates = [
+            { x, y: tipY },
+            { x: x - size / 2, y: headY },
+            { x: x - size / 6, y: headY },
+            { x: x - size / 6, y: tailY },
+            { x: x + size / 6, y: tailY },
+            { x: x + size / 6, y: headY },
+            { x: x + size / 2, y: headY }
+          ]
+        }
+        this.createFigure({
+          name: 'polygon',
+          attrs: { coordinates },
+          styles: { style: 'fill', color }
+        }, handler)?.draw(ctx)
+        break
+      }
+    }
+    if (hasText) {
+      this.createFigure({
+        name: 'text',
+        attrs: {
+          x,
+          y: tipY + sign * (size + offset),
+          text: text!,
+          align: 'center',
+          baseline: isAbove ? 'bottom' : 'top'
+        },
+        styles: { ...textStyles, color }
+      }, handler)?.draw(ctx)
+    }
+  }
+}
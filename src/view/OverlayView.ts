@@ -24,6 +24,8 @@ import type { OverlayFigure, Overlay } from '../component/Overlay'
 import type OverlayImp from '../component/Overlay'
 import { checkOverlayFigureEvent, OVERLAY_FIGURE_KEY_PREFIX } from '../component/Overlay'
 
+import { simplifyCoordinates } from '../extension/figure/line'
+
 import type { EventOverlayInfoFigureType } from '../Store'
 
 import { PaneIdConstants } from '../pane/types'
@@ -33,7 +35,22 @@ import type DrawPane from '../pane/DrawPane'
 
 import View from './View'
 
+/**
+ * The minimum distance between the points captured when drawing by dragging
+ */
+const DRAG_DRAW_MIN_DISTANCE = 2
+
+/**
+ * The tolerance of simplifying the points captured when drawing by dragging
+ */
+const DRAG_DRAW_SIMPLIFY_TOLERANCE = 1
+
 export default class OverlayView<C extends Axis = YAxis> extends View<C> {
+  /**
+   * The coordinates of the points captured when drawing by dragging
+   */
+  private _lastDragDrawCoordinate: Nullable<Coordinate> = null
+
   constructor (widget: DrawWidget<DrawPane<C>>) {
     super(widget)
     this._initEvent()
@@ -55,7 +72,7 @@ export default class OverlayView<C extends Axis = YAxis> extends View<C> {
           progressOverlayPaneId = paneId
         }
         const index = overlay.points.length - 1
-        if (overlay.isDrawing() && progressOverlayPaneId === paneId) {
+        if (overlay.isDrawing() && progressOverlayPaneId === paneId && overlay.drawMode === 'click') {
           overlay.eventMoveForDrawing(this._coordinateToPoint(overlay, event))
           overlay.onDrawing?.({ chart, overlay, ...event })
         }
@@ -89,13 +106,12 @@ export default class OverlayView<C extends Axis = YAxis> extends View<C> {
           progressOverlayPaneId = paneId
         }
         const index = overlay.points.length - 1
-        if (overlay.isDrawing() && progressOverlayPaneId === paneId) {
+        if (overlay.isDrawing() && progressOverlayPaneId === paneId && overlay.drawMode === 'click') {
           overlay.eventMoveForDrawing(this._coordinateToPoint(overlay, event))
           overlay.onDrawing?.({ chart, overlay, ...event })
           overlay.nextStep()
           if (!overlay.isDrawing()) {
-            chartStore.progressOverlayComplete()
-            overlay.onDrawEnd?.({ chart, overlay, ...event })
+            this._completeProgressOverlay(overlay, event)
           }
         }
         return this._figureMouseClickEvent(
@@ -129,8 +145,7 @@ export default class OverlayView<C extends Axis = YAxis> extends View<C> {
         if (overlay.isDrawing() && progressOverlayPaneId === paneId) {
           overlay.forceComplete()
           if (!overlay.isDrawing()) {
-            chartStore.progressOverlayComplete()
-            overlay.onDrawEnd?.({ chart, overlay, ...event })
+            this._completeProgressOverlay(overlay, event)
           }
         }
         const index = overlay.points.length - 1
@@ -165,13 +180,36 @@ export default class OverlayView<C extends Axis = YAxis> extends View<C> {
         }
       }
       return false
+    }).registerEvent('mouseDownEvent', event => {
+      const progressOverlayInfo = chartStore.getProgressOverlayInfo()
+      if (progressOverlayInfo !== null) {
+        const overlay = progressOverlayInfo.overlay
+        if (overlay.drawMode === 'drag' && overlay.isStart()) {
+          chartStore.updateProgressOverlayInfo(paneId, true)
+          this._captureDragDrawPoint(overlay, event)
+          return true
+        }
+      }
+      return false
     }).registerEvent('mouseUpEvent', event => {
-      const { overlay, figure } = chartStore.getPressedOverlayInfo()
-      if (overlay !== null) {
-        if (checkOverlayFigureEvent('onPressedMoveEnd', figure)) {
-          overlay.onPressedMoveEnd?.({ chart, overlay, figure: figure ?? undefined, ...event })
+      const progressOverlayInfo = chartStore.getProgressOverlayInfo()
+      if (progressOverlayInfo !== null) {
+        const overlay = progressOverlayInfo.overlay
+        if (overlay.drawMode === 'drag' && overlay.isDrawing() && !overlay.isStart() && progressOverlayInfo.paneId === paneId) {
+          overlay.forceComplete()
+          // Simplify the coordinates of the stored points, so that the result is the same as what is drawn
+          const coordinates = overlay.points.map(point => this._pointToCoordinate(overlay, point))
+          const indexes = simplifyCoordinates(coordinates, DRAG_DRAW_SIMPLIFY_TOLERANCE)
+          overlay.points = indexes.map(index => overlay.points[index])
+          this._lastDragDrawCoordinate = null
+          this._completeProgressOverlay(overlay, event)
+          return true
         }
       }
+      const { overlay, figure } = chartStore.getPressedOverlayInfo()
+      // The edits made in `onPressedMoveEnd` are undone with the move of the overlay,
+      // the move is recorded by releasing the overlay, so it must be recorded first
+      chartStore.startHistoryGroup()
       chartStore.setPressedOverlayInfo({
         paneId,
         overlay: null,
@@ -179,8 +217,25 @@ export default class OverlayView<C extends Axis = YAxis> extends View<C> {
         figureIndex: -1,
         figure: null
       })
+      if (overlay !== null) {
+        if (checkOverlayFigureEvent('onPressedMoveEnd', figure)) {
+          overlay.onPressedMoveEnd?.({ chart, overlay, figure: figure ?? undefined, ...event })
+        }
+      }
+      chartStore.endHistoryGroup()
       return false
     }).registerEvent('pressedMouseMoveEvent', event => {
+      const progressOverlayInfo = chartStore.getProgressOverlayInfo()
+      if (progressOverlayInfo !== null) {
+        const overlay = progressOverlayInfo.overlay
+        if (overlay.drawMode === 'drag' && overlay.isDrawing() && !overlay.isStart() && progressOverlayInfo.paneId === paneId) {
+          const last = this._lastDragDrawCoordinate
+          if (!isValid(last) || Math.abs(event.x - last.x) + Math.abs(event.y - last.y) >= DRAG_DRAW_MIN_DISTANCE) {
+            this._captureDragDrawPoint(overlay, event)
+          }
+          return true
+        }
+      }
       const { overlay, figureType, figureIndex, figure } = chartStore.getPressedOverlayInfo()
       if (overlay !== null) {
         if (checkOverlayFigureEvent('onPressedMoving', figure)) {
@@ -208,6 +263,46 @@ export default class OverlayView<C extends Axis = YAxis> extends View<C> {
     })
   }
 
+  /**
+   * The edits made in `onDrawEnd` , such as creating the indicator of `anchoredVwap` ,
+   * are undone with the creation of the overlay
+   */
+  private _completeProgressOverlay (overlay: OverlayImp, event: MouseTouchEvent): void {
+    const chart = this.getWidget().getPane().getChart()
+    const chartStore = chart.getChartStore()
+    chartStore.startHistoryGroup()
+    chartStore.progressOverlayComplete()
+    overlay.onDrawEnd?.({ chart, overlay, ...event })
+    chartStore.endHistoryGroup()
+  }
+
+  private _pointToCoordinate (overlay: OverlayImp, point: Partial<Point>): Coordinate {
+    const pane = this.getWidget().getPane()
+    const chart = pane.getChart()
+    const chartStore = chart.getChartStore()
+    const yAxis = pane.getAxisComponent() as unknown as Nullable<YAxis>
+    const xAxis = chart.getXAxisPane().getAxisComponent()
+    let dataIndex: Nullable<number> = null
+    if (isNumber(point.timestamp)) {
+      dataIndex = overlay.drawMode === 'drag' ? chartStore.timestampToFloatDataIndex(point.timestamp) : chartStore.timestampToDataIndex(point.timestamp)
+    }
+    const coordinate = { x: 0, y: 0 }
+    if (isNumber(dataIndex)) {
+      coordinate.x = xAxis.convertToPixel(dataIndex)
+    }
+    if (isNumber(point.value)) {
+      coordinate.y = yAxis?.convertToPixel(point.value) ?? 0
+    }
+    return coordinate
+  }
+
+  private _captureDragDrawPoint (overlay: OverlayImp, event: MouseTouchEvent): void {
+    this._lastDragDrawCoordinate = { x: event.x, y: event.y }
+    overlay.eventMoveForDrawing(this._coordinateToPoint(overlay, event))
+    overlay.nextStep()
+    overlay.onDrawing?.({ chart: this.getWidget().getPane().getChart(), overlay, ...event })
+  }
+
   private _createFigureEvents (
     overlay: OverlayImp,
     figureType: EventOverlayInfoFigureType,
@@ -345,8 +440,10 @@ export default class OverlayView<C extends Axis = YAxis> extends View<C> {
     const paneId = pane.getId()
     const chartStore = chart.getChartStore()
     if (this.coordinateToPointTimestampDataIndexFlag()) {
-      const xAxis = chart.getXAxisPane().getAxisComponent()
-      const dataIndex = xAxis.convertFromPixel(coordinate.x)
+      // The points drawn by dragging are not snapped to the bars
+      const dataIndex = o.drawMode === 'drag'
+        ? chartStore.coordinateToFloatIndex(coordinate.x) - 0.5
+        : chart.getXAxisPane().getAxisComponent().convertFromPixel(coordinate.x)
       const timestamp = chartStore.dataIndexToTimestamp(dataIndex) ?? undefined
       point.timestamp = timestamp
       point.dataIndex = dataIndex
@@ -354,7 +451,7 @@ export default class OverlayView<C extends Axis = YAxis> extends View<C> {
     if (this.coordinateToPointValueFlag()) {
       const yAxis = pane.getAxisComponent()
       let value = yAxis.convertFromPixel(coordinate.y)
-      if (o.mode !== 'normal' && paneId === PaneIdConstants.CANDLE && isNumber(point.dataIndex)) {
+      if (o.mode !== 'normal' && o.drawMode !== 'drag' && paneId === PaneIdConstants.CANDLE && isNumber(point.dataIndex)) {
         const kLineData = chartStore.getDataByDataIndex(point.dataIndex)
         if (kLineData !== null) {
           const modeSensitivity = o.modeSensitivity
@@ -438,26 +535,7 @@ export default class OverlayView<C extends Axis = YAxis> extends View<C> {
     ctx: CanvasRenderingContext2D,
     overlay: OverlayImp
   ): void {
-    const { points } = overlay
-    const pane = this.getWidget().getPane()
-    const chart = pane.getChart()
-    const chartStore = chart.getChartStore()
-    const yAxis = pane.getAxisComponent() as unknown as Nullable<YAxis>
-    const xAxis = chart.getXAxisPane().getAxisComponent()
-    const coordinates = points.map(point => {
-      let dataIndex: Nullable<number> = null
-      if (isNumber(point.timestamp)) {
-        dataIndex = chartStore.timestampToDataIndex(point.timestamp)
-      }
-      const coordinate = { x: 0, y: 0 }
-      if (isNumber(dataIndex)) {
-        coordinate.x = xAxis.convertToPixel(dataIndex)
-      }
-      if (isNumber(point.value)) {
-        coordinate.y = yAxis?.convertToPixel(point.value) ?? 0
-      }
-      return coordinate
-    })
+    const coordinates = overlay.points.map(point => this._pointToCoordinate(overlay, point))
     if (coordinates.length > 0) {
       // eslint-disable-next-line @typescript-eslint/ban-ts-comment -- ignore
       // @ts-expect-error
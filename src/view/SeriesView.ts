@@ -0,0 +1,112 @@
+/**
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+
+ * http://www.apache.org/licenses/LICENSE-2.0
+
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type Coordinate from '../common/Coordinate'
+import { isNumber, isValid } from '../common/utils/typeChecks'
+
+import type SeriesImp from '../component/Series'
+
+import ChildrenView from './ChildrenView'
+
+export default class SeriesView extends ChildrenView {
+  override drawImp (ctx: CanvasRenderingContext2D): void {
+    const chartStore = this.getWidget().getPane().getChart().getChartStore()
+    chartStore.getSeries().forEach(series => {
+      if (series.visible) {
+        if (series.type === 'candle') {
+          this._drawCandle(ctx, series)
+        } else {
+          this._drawLine(ctx, series)
+        }
+      }
+    })
+  }
+
+  private _getValueRatio (series: SeriesImp): number {
+    const pane = this.getWidget().getPane()
+    const chartStore = pane.getChart().getChartStore()
+    const { from, to } = chartStore.getVisibleRange()
+    return series.getValueRatio(chartStore.getDataList(), from, to, pane.getAxisComponent().name === 'percentage')
+  }
+
+  private _drawCandle (ctx: CanvasRenderingContext2D, series: SeriesImp): void {
+    const pane = this.getWidget().getPane()
+    const chartStore = pane.getChart().getChartStore()
+    const yAxis = pane.getAxisComponent()
+    const alignedDataList = series.getAlignedDataList(chartStore.getDataList())
+    const ratio = this._getValueRatio(series)
+    const { upColor, downColor, noChangeColor } = series.styles
+    this.eachChildren(({ x, dataIndex }, barSpace) => {
+      const data = alignedDataList[dataIndex]
+      if (isValid(data)) {
+        const { open, high, low, close } = data
+        let color = noChangeColor
+        if (close > open) {
+          color = upColor
+        } else if (close < open) {
+          color = downColor
+        }
+        const priceY = [open, close, high, low].map(value => yAxis.convertToPixel(value * ratio))
+        priceY.sort((a, b) => a - b)
+        const correction = barSpace.gapBar % 2 === 0 ? 1 : 0
+        this.createFigure({
+          name: 'rect',
+          attrs: [
+            { x, y: priceY[0], width: 1, height: priceY[3] - priceY[0] },
+            { x: x - barSpace.halfGapBar, y: priceY[1], width: barSpace.gapBar + correction, height: Math.max(1, priceY[2] - priceY[1]) }
+          ],
+          styles: { color }
+        })?.draw(ctx)
+      }
+    })
+  }
+
+  private _drawLine (ctx: CanvasRenderingContext2D, series: SeriesImp): void {
+    const widget = this.getWidget()
+    const pane = widget.getPane()
+    const chartStore = pane.getChart().getChartStore()
+    const yAxis = pane.getAxisComponent()
+    const alignedDataList = series.getAlignedDataList(chartStore.getDataList())
+    const ratio = this._getValueRatio(series)
+    const { color, size, areaColor } = series.styles
+    const coordinates: Coordinate[] = []
+    this.eachChildren(({ x, dataIndex }) => {
+      const value = alignedDataList[dataIndex]?.[series.value]
+      if (isNumber(value)) {
+        coordinates.push({ x, y: yAxis.convertToPixel(value * ratio) })
+      }
+    })
+    if (coordinates.length > 0) {
+      if (series.type === 'area') {
+        const height = widget.getBounding().height
+        this.createFigure({
+          name: 'polygon',
+          attrs: {
+            coordinates: [
+              { x: coordinates[0].x, y: height },
+              ...coordinates,
+              { x: coordinates[coordinates.length - 1].x, y: height }
+            ]
+          },
+          styles: { color: areaColor }
+        })?.draw(ctx)
+      }
+      this.createFigure({
+        name: 'line',
+        attrs: { coordinates },
+        styles: { color, size }
+      })?.draw(ctx)
+    }
+  }
+}
@@ -18,6 +18,8 @@ import CandleBarView from '../view/CandleBarView'
 import CandleAreaView from '../view/CandleAreaView'
 import CandleHighLowPriceView from '../view/CandleHighLowPriceView'
 import CandleLastPriceLineView from '../view/CandleLastPriceLineView'
+import SeriesView from '../view/SeriesView'
+import MarkerView from '../view/MarkerView'
 
 import type IndicatorTooltipView from '../view/IndicatorTooltipView'
 import CandleTooltipView from '../view/CandleTooltipView'
@@ -32,11 +34,14 @@ export default class CandleWidget extends IndicatorWidget {
   private readonly _candleAreaView = new CandleAreaView(this)
   private readonly _candleHighLowPriceView = new CandleHighLowPriceView(this)
   private readonly _candleLastPriceLineView = new CandleLastPriceLineView(this)
+  private readonly _seriesView = new SeriesView(this)
+  private readonly _markerView = new MarkerView(this)
   private readonly _crosshairFeatureView = new CrosshairFeatureView(this)
 
   constructor (rootContainer: HTMLElement, pane: AxisPane<YAxis>) {
     super(rootContainer, pane)
     this.addChild(this._candleBarView)
+    this.addChild(this._markerView)
     this.addChild(this._crosshairFeatureView)
   }
 
@@ -49,7 +54,9 @@ export default class CandleWidget extends IndicatorWidget {
     } else {
       this._candleAreaView.draw(ctx)
     }
+    this._seriesView.draw(ctx)
     this._candleLastPriceLineView.draw(ctx)
+    this._markerView.draw(ctx)
   }
 
   override updateOverlayContent (ctx: CanvasRenderingContext2D): void {
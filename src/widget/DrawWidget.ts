@@ -12,6 +12,7 @@
  * limitations under the License.
  */
 
+import type Nullable from '../common/Nullable'
 import type Bounding from '../common/Bounding'
 import { UpdateLevel } from '../common/Updater'
 import Canvas from '../common/Canvas'
@@ -52,6 +53,13 @@ export default abstract class DrawWidget<P extends DrawPane = DrawPane> extends
     container.appendChild(this._overlayCanvas.getElement())
   }
 
+  /**
+   * The id of the axis drawn by the widget, `null` means the main axis
+   */
+  getAxisId (): Nullable<string> {
+    return null
+  }
+
   override createContainer (): HTMLElement {
     return createDom('div', {
       margin: '0',
@@ -12,6 +12,8 @@
  * limitations under the License.
  */
 
+import type Nullable from '../common/Nullable'
+
 import type DrawPane from '../pane/DrawPane'
 
 import { WidgetNameConstants } from './types'
@@ -21,6 +23,7 @@ import type { YAxis } from '../component/YAxis'
 
 import YAxisView from '../view/YAxisView'
 import CandleLastPriceLabelView from '../view/CandleLastPriceLabelView'
+import IndicatorLevelValueView from '../view/IndicatorLevelValueView'
 import IndicatorLastValueView from '../view/IndicatorLastValueView'
 import OverlayYAxisView from '../view/OverlayYAxisView'
 import CrosshairHorizontalLabelView from '../view/CrosshairHorizontalLabelView'
@@ -28,12 +31,16 @@ import CrosshairHorizontalLabelView from '../view/CrosshairHorizontalLabelView'
 export default class YAxisWidget extends DrawWidget<DrawPane<YAxis>> {
   private readonly _yAxisView = new YAxisView(this)
   private readonly _candleLastPriceLabelView = new CandleLastPriceLabelView(this)
+  private readonly _indicatorLevelValueView = new IndicatorLevelValueView(this)
   private readonly _indicatorLastValueView = new IndicatorLastValueView(this)
   private readonly _overlayYAxisView = new OverlayYAxisView(this)
   private readonly _crosshairHorizontalLabelView = new CrosshairHorizontalLabelView(this)
 
-  constructor (rootContainer: HTMLElement, pane: DrawPane<YAxis>) {
+  private readonly _axisId: Nullable<string>
+
+  constructor (rootContainer: HTMLElement, pane: DrawPane<YAxis>, axisId?: string) {
     super(rootContainer, pane)
+    this._axisId = axisId ?? null
     this.setCursor('ns-resize')
     this.addChild(this._overlayYAxisView)
   }
@@ -42,20 +49,28 @@ export default class YAxisWidget extends DrawWidget<DrawPane<YAxis>> {
     return WidgetNameConstants.Y_AXIS
   }
 
+  override getAxisId (): Nullable<string> {
+    return this._axisId
+  }
+
   override updateMain (ctx: CanvasRenderingContext2D): void {
     const minimize = this.getPane().getOptions().state === 'minimize'
     this._yAxisView.draw(ctx, minimize)
     if (!minimize) {
-      if (this.getPane().getAxisComponent().isInCandle()) {
+      if (this.getPane().getAxisComponent(this._axisId).isInCandle()) {
         this._candleLastPriceLabelView.draw(ctx)
       }
+      this._indicatorLevelValueView.draw(ctx)
       this._indicatorLastValueView.draw(ctx)
     }
   }
 
   override updateOverlay (ctx: CanvasRenderingContext2D): void {
     if (this.getPane().getOptions().state !== 'minimize') {
-      this._overlayYAxisView.draw(ctx)
+      // Overlays are bound to the main y-axis
+      if (this._axisId === null) {
+        this._overlayYAxisView.draw(ctx)
+      }
       this._crosshairHorizontalLabelView.draw(ctx)
     }
   }
@@ -0,0 +1,223 @@
+/**
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+
+ * http://www.apache.org/licenses/LICENSE-2.0
+
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { after, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+
+import type Nullable from '../../src/common/Nullable'
+import type { KLineData } from '../../src/common/Data'
+import type { IndicatorCalcWorkerLike, IndicatorCalcWorkerMessageListener } from '../../src/common/IndicatorCalcExecutor'
+import { createIndicatorCalcWorkerExecutor, setupIndicatorCalcWorker } from '../../src/common/IndicatorCalcExecutor'
+import { createDateTimeFormat } from '../../src/common/utils/format'
+
+import type IndicatorImp from '../../src/component/Indicator'
+import type { IndicatorDataState } from '../../src/component/Indicator'
+
+import { getIndicatorClass, registerIndicator } from '../../src/extension/indicator/index'
+
+import type ChartImp from '../../src/Chart'
+import StoreImp from '../../src/Store'
+
+interface WorkerPair {
+  main: IndicatorCalcWorkerLike
+  worker: IndicatorCalcWorkerLike
+  /**
+   * The messages posted by the worker
+   */
+  workerMessages: Array<Record<string, unknown>>
+}
+
+/**
+ * Connect the two ends in memory, the messages are cloned and delivered asynchronously like `Worker`
+ */
+function createWorkerPair (): WorkerPair {
+  const mainListeners = new Set<IndicatorCalcWorkerMessageListener>()
+  const workerListeners = new Set<IndicatorCalcWorkerMessageListener>()
+  const workerMessages: Array<Record<string, unknown>> = []
+  const createEnd = (
+    listeners: Set<IndicatorCalcWorkerMessageListener>,
+    targetListeners: Set<IndicatorCalcWorkerMessageListener>,
+    onPost?: (message: Record<string, unknown>) => void
+  ): IndicatorCalcWorkerLike => ({
+    postMessage: message => {
+      // Throws like `Worker` when the message is not cloneable
+      const data = structuredClone(message) as Record<string, unknown>
+      onPost?.(data)
+      setTimeout(() => { targetListeners.forEach(listener => { listener({ data }) }) }, 0)
+    },
+    addEventListener: (_, listener) => { listeners.add(listener) },
+    removeEventListener: (_, listener) => { listeners.delete(listener) }
+  })
+  return {
+    main: createEnd(mainListeners, workerListeners),
+    worker: createEnd(workerListeners, mainListeners, message => { workerMessages.push(message) }),
+    workerMessages
+  }
+}
+
+function createData (index: number, close?: number): KLineData {
+  const value = close ?? 100 + Math.sin(index / 5) * 10
+  return { timestamp: index * 60000, open: value - 1, high: value + 2, low: value - 2, close: value, volume: 1000 + index }
+}
+
+function createDataList (count: number): KLineData[] {
+  return Array.from({ length: count }, (_, index) => createData(index))
+}
+
+function createIndicator (name: string): IndicatorImp {
+  const IndicatorClazz = getIndicatorClass(name)!
+  return new IndicatorClazz()
+}
+
+const context = { dateTimeFormat: createDateTimeFormat('UTC') }
+
+/**
+ * The incremental calculation may differ from the full calculation by the floating point error
+ */
+function assertResultEqual (actual: Nullable<unknown[]>, expected: unknown[]): void {
+  assert.ok(actual !== null)
+  assert.equal(actual.length, expected.length)
+  expected.forEach((data, index) => {
+    const actualData = actual[index] as Record<string, number>
+    const expectedData = data as Record<string, number>
+    assert.deepEqual(Object.keys(actualData), Object.keys(expectedData))
+    Object.keys(expectedData).forEach(key => {
+      assert.ok(Math.abs(actualData[key] - expectedData[key]) < 1e-9, `${key} of ${index}`)
+    })
+  })
+}
+
+void describe('IndicatorCalcExecutor', () => {
+  void it('calculates with the data synchronized by init and delta', async () => {
+    const { main, worker, workerMessages } = createWorkerPair()
+    setupIndicatorCalcWorker(worker)
+    const executor = createIndicatorCalcWorkerExecutor(main)
+    const indicator = createIndicator('MA')
+
+    const dataList = createDataList(60)
+    executor.syncData!(dataList, 'init', null)
+    indicator.result = (await executor.calc(indicator, dataList, null, context))!
+    assertResultEqual(indicator.result, await indicator.calc(dataList, indicator, context))
+
+    // Only the new data is posted to the worker and only the result from `from` is posted back
+    dataList.push(createData(60))
+    executor.syncData!(dataList, 'backward', { from: 60, to: 61 })
+    let result = await executor.calc(indicator, dataList, { type: 'backward', range: { from: 60, to: 61 } }, context)
+    assertResultEqual(result, await indicator.calc(dataList, indicator, context))
+    const backwardMessage = workerMessages[workerMessages.length - 1]
+    assert.equal(backwardMessage.type, 'result')
+    assert.equal(backwardMessage.from, 60)
+    assert.equal((backwardMessage.result as unknown[]).length, 1)
+
+    // The last data is replaced and merged into the previous result
+    dataList[60] = createData(60, 200)
+    executor.syncData!(dataList, 'update', { from: 60, to: 61 })
+    result = await executor.calc(indicator, dataList, { type: 'update', range: { from: 60, to: 61 } }, context)
+    assert.equal(result, indicator.result)
+    assertResultEqual(result, await indicator.calc(dataList, indicator, context))
+
+    executor.destroy!()
+  })
+
+  void it('resolves null when the worker does not support the calculation', async () => {
+    const { main, worker, workerMessages } = createWorkerPair()
+    setupIndicatorCalcWorker(worker)
+    const executor = createIndicatorCalcWorkerExecutor(main)
+
+    // The leading data have no turnover, the source can not be aligned in the worker
+    const dataList = createDataList(30)
+    executor.syncData!(dataList, 'init', null)
+    const indicator = createIndicator('MA')
+    indicator.override({ source: 'turnover' })
+    assert.equal(await executor.calc(indicator, dataList, null, context), null)
+    assert.equal(workerMessages[workerMessages.length - 1].type, 'unsupported')
+
+    // The message with functions can not be posted
+    const formatIndicator = createIndicator('MA')
+    formatIndicator.override({ extendData: { format: () => '' } })
+    assert.equal(await executor.calc(formatIndicator, dataList, null, context), null)
+
+    executor.destroy!()
+  })
+})
+
+void describe('IndicatorCalcExecutor in store', () => {
+  // The store measures the texts and schedules the calculation by the apis of the browser
+  Object.assign(globalThis, {
+    window: globalThis,
+    document: {
+      createElement: () => ({
+        ownerDocument: {},
+        getContext: () => ({ scale: () => undefined, measureText: (text: string) => ({ width: text.length * 6 }) })
+      })
+    }
+  })
+  registerIndicator({
+    name: 'UNIT_TEST_ERROR',
+    figures: [],
+    calc: () => { throw new Error('calc error') }
+  })
+  const chart = {
+    layout: () => undefined,
+    updatePane: () => undefined,
+    crosshairChange: () => undefined,
+    getPaneOptions: () => null
+  } as unknown as ChartImp
+  const store = new StoreImp(chart)
+  const workerPair = createWorkerPair()
+  setupIndicatorCalcWorker(workerPair.worker)
+  store.setIndicatorCalcExecutor(createIndicatorCalcWorkerExecutor(workerPair.main))
+  store.addData(createDataList(40), 'init')
+
+  after(() => {
+    store.destroy()
+  })
+
+  const addIndicator = async (id: string, name: string, extendData?: unknown): Promise<IndicatorDataState> =>
+    // eslint-disable-next-line promise/avoid-new -- ignore
+    await new Promise(resolve => {
+      store.addIndicator({
+        id,
+        name,
+        extendData,
+        onDataStateChange: ({ state }) => {
+          if (state !== 'loading') {
+            resolve(state)
+          }
+        }
+      }, 'candle_pane', true)
+    })
+
+  void it('is ready with the result of the worker', async () => {
+    const count = workerPair.workerMessages.length
+    assert.equal(await addIndicator('worker', 'MA'), 'ready')
+    assert.equal(workerPair.workerMessages[count].type, 'result')
+    const indicator = store.getIndicatorsByFilter({ id: 'worker' })[0]
+    assertResultEqual(indicator.result, await indicator.calc(store.getDataList(), indicator, context))
+  })
+
+  void it('is ready with the result of the main thread when the worker does not support it', async () => {
+    const count = workerPair.workerMessages.length
+    assert.equal(await addIndicator('unsupported', 'MA', { format: () => '' }), 'ready')
+    assert.equal(workerPair.workerMessages.length, count)
+    const indicator = store.getIndicatorsByFilter({ id: 'unsupported' })[0]
+    assertResultEqual(indicator.result, await indicator.calc(store.getDataList(), indicator, context))
+  })
+
+  void it('is error when the calculation fails in the worker', async () => {
+    const count = workerPair.workerMessages.length
+    assert.equal(await addIndicator('error', 'UNIT_TEST_ERROR'), 'error')
+    assert.equal(workerPair.workerMessages[count].type, 'error')
+  })
+})